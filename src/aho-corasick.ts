@@ -0,0 +1,214 @@
+import { Queue } from "./queue";
+import { Trie } from "./trie";
+
+/**
+ * A state of the automaton. The automaton keeps its own states, so that
+ * changing the trie it was built from doesn't affect it.
+ */
+class AhoCorasickNode {
+   public children = new Map<string, AhoCorasickNode>();
+
+   /**
+    * The pattern that ends at this state, if any.
+    */
+   public pattern: string | undefined = undefined;
+
+   /**
+    * The state of the longest proper suffix of this state's path that is
+    * also a state.
+    */
+   public failure: AhoCorasickNode | undefined = undefined;
+
+   /**
+    * The nearest state along the failure links where a pattern ends.
+    */
+   public output: AhoCorasickNode | undefined = undefined;
+}
+
+export class AhoCorasick {
+   private _root = new AhoCorasickNode();
+
+   /**
+    * The state of the stream that is scanned with `feed`.
+    */
+   private _state: AhoCorasickNode;
+   private _offset: number = 0;
+   private _pendingChar: string = "";
+
+   /**
+    * Creates a new instance of AhoCorasick from the words of a trie, which
+    * become the patterns to search for. The words are copied, so later
+    * changes to the trie don't affect the automaton. The empty word is
+    * ignored. The text is scanned character by character, so the trie
+    * should use the default tokenizer and no normalizers.
+    *
+    * @param trie The trie of patterns.
+    *
+    * @timeComplexity `O(m * a)` where `m` is the total length of the
+    * words and `a` is the size of the alphabet.
+    */
+   constructor(trie: Trie) {
+      this._state = this._root;
+      for (const word of trie) {
+         this._addPattern(word);
+      }
+      this._build();
+   }
+
+   /**
+    * Finds every occurrence of the patterns in a text, including
+    * overlapping ones. This doesn't affect the state of `feed`.
+    *
+    * @param text The text to search.
+    *
+    * @timeComplexity `O(n + z)` where `n` is the text's length and `z` is
+    * the number of matches.
+    *
+    * @returns The matches, ordered by where they end, then from the
+    * longest pattern to the shortest.
+    */
+   findAll(text: string): AhoCorasickMatch[] {
+      const matches: AhoCorasickMatch[] = [];
+      let state = this._root;
+      let offset = 0;
+      for (const char of text) {
+         offset += char.length;
+         state = this._step(state, char);
+         this._collectMatches(state, offset, matches);
+      }
+      return matches;
+   }
+
+   /**
+    * Scans the next chunk of a stream. Matches can span the boundaries
+    * between chunks, and their offsets are relative to the start of the
+    * whole stream.
+    *
+    * @param chunk The next chunk of the stream.
+    *
+    * @timeComplexity `O(n + z)` where `n` is the chunk's length and `z` is
+    * the number of matches.
+    *
+    * @returns The matches that end in this chunk.
+    */
+   feed(chunk: string): AhoCorasickMatch[] {
+      let text = this._pendingChar + chunk;
+      this._pendingChar = "";
+
+      // Keep a split surrogate pair until the rest of it arrives
+      const lastCode = text.charCodeAt(text.length - 1);
+      if (lastCode >= 0xd800 && lastCode <= 0xdbff) {
+         this._pendingChar = text[text.length - 1];
+         text = text.slice(0, -1);
+      }
+
+      const matches: AhoCorasickMatch[] = [];
+      for (const char of text) {
+         this._offset += char.length;
+         this._state = this._step(this._state, char);
+         this._collectMatches(this._state, this._offset, matches);
+      }
+      return matches;
+   }
+
+   /**
+    * Resets the state of the stream, so that the next `feed` starts a new
+    * stream.
+    *
+    * @timeComplexity `O(1)`
+    */
+   reset(): void {
+      this._state = this._root;
+      this._offset = 0;
+      this._pendingChar = "";
+   }
+
+   /**
+    * Creates an automaton from a list of patterns.
+    *
+    * @param patterns The patterns to search for.
+    *
+    * @timeComplexity `O(m * a)` where `m` is the total length of the
+    * patterns and `a` is the size of the alphabet.
+    */
+   static fromPatterns(patterns: Iterable<string>): AhoCorasick {
+      const trie = new Trie();
+      for (const pattern of patterns) {
+         trie.insert(pattern);
+      }
+      return new AhoCorasick(trie);
+   }
+
+   private _addPattern(pattern: string): void {
+      if (pattern.length === 0) return;
+
+      let node = this._root;
+      for (const char of pattern) {
+         let child = node.children.get(char);
+         if (!child) {
+            child = new AhoCorasickNode();
+            node.children.set(char, child);
+         }
+         node = child;
+      }
+      node.pattern = pattern;
+   }
+
+   /**
+    * Adds the failure and output links to every state, breadth-first, so
+    * that the links of shallower states are ready when they're needed.
+    */
+   private _build(): void {
+      const queue = new Queue<AhoCorasickNode>();
+      queue.enqueue(this._root);
+      while (!queue.isEmpty()) {
+         const node = queue.dequeue()!;
+         for (const [char, child] of node.children) {
+            const failure =
+               node === this._root ? this._root : this._step(node.failure!, char);
+            child.failure = failure;
+            child.output =
+               failure.pattern !== undefined ? failure : failure.output;
+            queue.enqueue(child);
+         }
+      }
+   }
+
+   private _step(state: AhoCorasickNode, char: string): AhoCorasickNode {
+      while (state !== this._root && !state.children.has(char)) {
+         state = state.failure!;
+      }
+      return state.children.get(char) ?? this._root;
+   }
+
+   private _collectMatches(
+      state: AhoCorasickNode,
+      end: number,
+      matches: AhoCorasickMatch[]
+   ): void {
+      let node: AhoCorasickNode | undefined =
+         state.pattern !== undefined ? state : state.output;
+      while (node !== undefined) {
+         const pattern = node.pattern!;
+         matches.push({ pattern, start: end - pattern.length, end });
+         node = node.output;
+      }
+   }
+}
+
+export type AhoCorasickMatch = {
+   /**
+    * The pattern that matched.
+    */
+   pattern: string;
+
+   /**
+    * The offset where the match starts.
+    */
+   start: number;
+
+   /**
+    * The offset right after the match ends.
+    */
+   end: number;
+};
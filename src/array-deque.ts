@@ -0,0 +1,214 @@
+const INITIAL_CAPACITY = 16;
+
+export class ArrayDeque<T = any> {
+   private _buffer: (T | undefined)[] = new Array(INITIAL_CAPACITY);
+   private _head: number = 0;
+   private _size: number = 0;
+
+   /**
+    * Adds a value to the end of the queue.
+    *
+    * @param value The value to add to the queue.
+    *
+    * @timeComplexity `O(1)` amortized
+    */
+   enqueue(value: T): void {
+      if (this._size === this._buffer.length) this._grow();
+      this._buffer[this._physicalIndex(this._size)] = value;
+      this._size++;
+   }
+
+   /**
+    * Adds a value to the front of the queue.
+    *
+    * @param value The value to add to the front of the queue.
+    *
+    * @timeComplexity `O(1)` amortized
+    */
+   enqueueFront(value: T): void {
+      if (this._size === this._buffer.length) this._grow();
+      this._head = this._physicalIndex(-1);
+      this._buffer[this._head] = value;
+      this._size++;
+   }
+
+   /**
+    * Removes and returns the value at the front of the queue.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The value at the front of the queue or undefined if the queue
+    * is empty.
+    */
+   dequeue(): T | undefined {
+      if (this._size === 0) return;
+
+      const value = this._buffer[this._head];
+      this._buffer[this._head] = undefined;
+      this._head = this._physicalIndex(1);
+      this._size--;
+      return value;
+   }
+
+   /**
+    * Removes and returns the value at the back of the queue.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The value at the back of the queue or undefined if the queue
+    * is empty.
+    */
+   dequeueBack(): T | undefined {
+      if (this._size === 0) return;
+
+      const index = this._physicalIndex(this._size - 1);
+      const value = this._buffer[index];
+      this._buffer[index] = undefined;
+      this._size--;
+      return value;
+   }
+
+   /**
+    * Returns the value at the front of the queue without removing it.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The value at the front of the queue or undefined if the queue
+    * is empty.
+    */
+   front(): T | undefined {
+      return this.at(0);
+   }
+
+   /**
+    * Returns the value at the back of the queue without removing it.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The value at the back of the queue or undefined if the queue
+    * is empty.
+    */
+   back(): T | undefined {
+      return this.at(-1);
+   }
+
+   /**
+    * Returns the value at the given position of the queue.
+    *
+    * @param index The position of the value, starting from the front.
+    * Negative indices count back from the back of the queue.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The value at the given position or undefined if the index
+    * is out of bounds.
+    */
+   at(index: number): T | undefined {
+      if (index < 0) index += this._size;
+      if (index < 0 || index >= this._size) return;
+      return this._buffer[this._physicalIndex(index)];
+   }
+
+   /**
+    * Returns the number of elements in the queue.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The number of elements in the queue.
+    */
+   size(): number {
+      return this._size;
+   }
+
+   /**
+    * Returns true if the queue is empty, false otherwise.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns True if the queue is empty, false otherwise.
+    */
+   isEmpty(): boolean {
+      return this._size === 0;
+   }
+
+   /**
+    * Removes all elements from the queue.
+    *
+    * @timeComplexity `O(1)`
+    */
+   clear(): void {
+      this._buffer = new Array(INITIAL_CAPACITY);
+      this._head = 0;
+      this._size = 0;
+   }
+
+   /**
+    * Creates a copy of the queue.
+    *
+    * @timeComplexity `O(n)`
+    */
+   clone(): ArrayDeque<T> {
+      const deque = new ArrayDeque<T>();
+      deque._buffer = [...this._buffer];
+      deque._head = this._head;
+      deque._size = this._size;
+      return deque;
+   }
+
+   /**
+    * Converts the queue to an array.
+    *
+    * @timeComplexity `O(n)`
+    *
+    * @returns An array containing all the values in the queue.
+    */
+   toArray(): T[] {
+      return [...this.values()];
+   }
+
+   /**
+    * Creates a queue from an array of values.
+    *
+    * @timeComplexity `O(n)`
+    */
+   static fromArray<T>(array: T[]): ArrayDeque<T> {
+      const deque = new ArrayDeque<T>();
+      for (const value of array) {
+         deque.enqueue(value);
+      }
+      return deque;
+   }
+
+   *values(): IterableIterator<T> {
+      for (let i = 0; i < this._size; i++) {
+         yield this._buffer[this._physicalIndex(i)] as T;
+      }
+   }
+
+   *[Symbol.iterator](): IterableIterator<T> {
+      yield* this.values();
+   }
+
+   /**
+    * Maps a position in the queue to an index in the buffer.
+    *
+    * @param index The position in the queue.
+    */
+   private _physicalIndex(index: number): number {
+      // The buffer length is always a power of two
+      return (this._head + index) & (this._buffer.length - 1);
+   }
+
+   /**
+    * Doubles the capacity of the buffer, moving the values so that the
+    * front of the queue is at the start of the buffer.
+    */
+   private _grow(): void {
+      const buffer: (T | undefined)[] = new Array(this._buffer.length * 2);
+      for (let i = 0; i < this._size; i++) {
+         buffer[i] = this._buffer[this._physicalIndex(i)];
+      }
+      this._buffer = buffer;
+      this._head = 0;
+   }
+}
@@ -0,0 +1,228 @@
+import { LinkedList, ListNode } from "./linked-list";
+import { Queue } from "./queue";
+
+export class AsyncQueue<T = any> implements AsyncIterable<T> {
+   private readonly _config: AsyncQueueConfig;
+   private _buffer = new Queue<T>();
+   private _consumers = new LinkedList<Waiter<T>>();
+   private _producers = new LinkedList<Waiter<void> & { value: T }>();
+   private _isClosed = false;
+
+   constructor(config: Partial<AsyncQueueConfig> = {}) {
+      this._config = { ...defaultAsyncQueueConfig, ...config };
+      if (!(this._config.highWaterMark >= 0)) {
+         throw new RangeError("High water mark must not be negative.");
+      }
+   }
+
+   /**
+    * Adds a value to the end of the queue. If the queue has reached its
+    * high water mark, this waits until a consumer makes room for it.
+    *
+    * @param value The value to add to the queue.
+    * @param options.signal A signal to stop waiting for room. (Optional)
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @throws Error if the queue is closed. This is thrown right away
+    * instead of rejecting, since callers don't need to await `enqueue`
+    * when the queue has no high water mark.
+    *
+    * @returns A promise that resolves once the value is in the queue or
+    * handed to a consumer. It rejects if the queue is closed or the
+    * signal is aborted while waiting for room.
+    */
+   enqueue(value: T, options: { signal?: AbortSignal } = {}): Promise<void> {
+      if (this._isClosed) throw closedError();
+      if (options.signal?.aborted) return Promise.reject(options.signal.reason);
+
+      const consumer = this._consumers.head();
+      if (consumer) {
+         this._consumers.deleteNode(consumer);
+         consumer.value.resolve(value);
+      } else if (this._buffer.size() < this._config.highWaterMark) {
+         this._buffer.enqueue(value);
+      } else {
+         return this._wait(this._producers, options.signal, { value });
+      }
+
+      return Promise.resolve();
+   }
+
+   /**
+    * Removes and returns the value at the front of the queue without
+    * waiting.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The value at the front of the queue or undefined if the queue
+    * is empty.
+    */
+   dequeue(): T | undefined {
+      if (!this._buffer.isEmpty()) {
+         const value = this._buffer.dequeue() as T;
+         this._admitProducer();
+         return value;
+      }
+
+      // With a high water mark of 0, values are handed over directly
+      const producer = this._producers.head();
+      if (producer) {
+         this._producers.deleteNode(producer);
+         producer.value.resolve();
+         return producer.value.value;
+      }
+   }
+
+   /**
+    * Removes and returns the value at the front of the queue, waiting
+    * for one to arrive if the queue is empty.
+    *
+    * @param options.signal A signal to stop waiting for a value. (Optional)
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns A promise that resolves with the value. It rejects if the
+    * queue is closed and empty, or the signal is aborted before a value
+    * arrives.
+    */
+   dequeueAsync(options: { signal?: AbortSignal } = {}): Promise<T> {
+      if (options.signal?.aborted) return Promise.reject(options.signal.reason);
+
+      if (!this._buffer.isEmpty() || !this._producers.isEmpty()) {
+         return Promise.resolve(this.dequeue() as T);
+      }
+
+      if (this._isClosed) return Promise.reject(closedError());
+
+      return this._wait(this._consumers, options.signal, {});
+   }
+
+   /**
+    * Closes the queue. Values that are already in the queue can still be
+    * dequeued, but `enqueue` throws from now on, and everyone that is
+    * still waiting gets rejected.
+    *
+    * @timeComplexity `O(w)` where `w` is the number of waiting callers.
+    */
+   close(): void {
+      if (this._isClosed) return;
+      this._isClosed = true;
+
+      for (const node of [...this._consumers]) {
+         this._consumers.deleteNode(node);
+         node.value.reject(closedError());
+      }
+      for (const node of [...this._producers]) {
+         this._producers.deleteNode(node);
+         node.value.reject(closedError());
+      }
+   }
+
+   /**
+    * Returns true if the queue is closed, false otherwise.
+    *
+    * @timeComplexity `O(1)`
+    */
+   isClosed(): boolean {
+      return this._isClosed;
+   }
+
+   /**
+    * Returns the number of values in the queue. This doesn't include
+    * the values of producers that are still waiting for room.
+    *
+    * @timeComplexity `O(1)`
+    */
+   size(): number {
+      return this._buffer.size();
+   }
+
+   /**
+    * Returns true if the queue is empty, false otherwise.
+    *
+    * @timeComplexity `O(1)`
+    */
+   isEmpty(): boolean {
+      return this._buffer.isEmpty();
+   }
+
+   /**
+    * Iterates through the values as they arrive, until the queue is
+    * closed and empty. Each value is dequeued as it is iterated.
+    */
+   async *[Symbol.asyncIterator](): AsyncIterableIterator<T> {
+      while (true) {
+         try {
+            yield await this.dequeueAsync();
+         } catch (error) {
+            if (this._isClosed && this._buffer.isEmpty()) return;
+            throw error;
+         }
+      }
+   }
+
+   /**
+    * Moves the value of the first waiting producer into the buffer.
+    */
+   private _admitProducer(): void {
+      const producer = this._producers.head();
+      if (producer === undefined) return;
+      if (this._buffer.size() >= this._config.highWaterMark) return;
+
+      this._producers.deleteNode(producer);
+      this._buffer.enqueue(producer.value.value);
+      producer.value.resolve();
+   }
+
+   /**
+    * Adds a waiter to the given list, which is removed once it settles or
+    * the signal is aborted.
+    */
+   private _wait<R, E extends object>(
+      waiters: LinkedList<Waiter<R> & E>,
+      signal: AbortSignal | undefined,
+      extra: E
+   ): Promise<R> {
+      return new Promise<R>((resolve, reject) => {
+         let node: ListNode<Waiter<R> & E> | undefined = undefined;
+         const onAbort = () => {
+            waiters.deleteNode(node!);
+            reject(signal!.reason);
+         };
+
+         node = waiters.append({
+            ...extra,
+            resolve: (value: R) => {
+               signal?.removeEventListener("abort", onAbort);
+               resolve(value);
+            },
+            reject: (reason: unknown) => {
+               signal?.removeEventListener("abort", onAbort);
+               reject(reason);
+            },
+         });
+         signal?.addEventListener("abort", onAbort, { once: true });
+      });
+   }
+}
+
+function closedError(): Error {
+   return new Error("Queue is closed.");
+}
+
+type Waiter<T> = {
+   resolve: (value: T) => void;
+   reject: (reason: unknown) => void;
+};
+
+const defaultAsyncQueueConfig = {
+   /**
+    * The number of values the queue can hold before `enqueue` starts
+    * waiting for consumers.
+    * @default Infinity
+    */
+   highWaterMark: Infinity,
+};
+
+export type AsyncQueueConfig = typeof defaultAsyncQueueConfig;
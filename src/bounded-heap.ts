@@ -0,0 +1,172 @@
+import { Heap } from "./heap";
+import { Comparator, defaultComparator } from "./utils/comparator";
+
+export class BoundedHeap<T = number> extends Heap<T> {
+   private readonly _capacity: number;
+   private readonly _order: Comparator<T>;
+
+   /**
+    * Creates a new instance of BoundedHeap.
+    *
+    * A bounded heap only retains the first `capacity` items according to
+    * the comparator (e.g. the `k` smallest numbers by default). Its top is
+    * the worst retained item, which is the next one to be evicted.
+    *
+    * @param capacity The maximum number of items to retain.
+    * @param comparator The comparator function to use. (Optional)
+    */
+   constructor(capacity: number, comparator: Comparator<T> = defaultComparator) {
+      super((a, b) => comparator(b, a));
+      if (!Number.isInteger(capacity) || capacity < 1) {
+         throw new RangeError("Capacity must be a positive integer.");
+      }
+
+      this._capacity = capacity;
+      this._order = comparator;
+   }
+
+   /**
+    * Returns the maximum number of items the heap can retain.
+    *
+    * @timeComplexity `O(1)`
+    */
+   capacity(): number {
+      return this._capacity;
+   }
+
+   /**
+    * Returns true if the heap is at full capacity, false otherwise.
+    *
+    * @timeComplexity `O(1)`
+    */
+   isFull(): boolean {
+      return this.size() >= this._capacity;
+   }
+
+   /**
+    * Adds elements to the heap. Once the heap is full, the worst item is
+    * evicted whenever a better one is added.
+    *
+    * @timeComplexity `O(m * log(k))` where `m` is the number of items to
+    * add and `k` is the capacity.
+    *
+    * @param items The elements to add to the heap.
+    */
+   push(...items: T[]): void {
+      for (const item of items) {
+         this.pushPop(item);
+      }
+   }
+
+   /**
+    * Adds an element to the heap and removes the worst element if the
+    * heap goes over capacity.
+    *
+    * @param item The element to add.
+    *
+    * @timeComplexity `O(log(k))` where `k` is the capacity.
+    *
+    * @returns The evicted element (which can be `item` itself if it's
+    * worse than every retained item), or undefined if nothing was evicted.
+    */
+   pushPop(item: T): T | undefined {
+      if (!this.isFull()) {
+         super.push(item);
+         return;
+      }
+
+      if (this._order(item, this._heap[0]) >= 0) return item;
+
+      return this.replace(item);
+   }
+
+   /**
+    * Removes the worst element from the heap, then adds the given element
+    * regardless of how it compares to the retained items.
+    *
+    * @param item The element to add.
+    *
+    * @timeComplexity `O(log(k))` where `k` is the capacity.
+    *
+    * @returns The removed element or undefined if the heap was empty.
+    */
+   replace(item: T): T | undefined {
+      if (this.isEmpty()) {
+         super.push(item);
+         return;
+      }
+
+      const removedValue = this._heap[0];
+      this._heap[0] = item;
+      this._heapifyDown(0);
+      return removedValue;
+   }
+
+   /**
+    * Adds all elements of another heap into this heap, evicting the worst
+    * items if the heap goes over capacity. The other heap will be empty
+    * afterwards.
+    *
+    * @param other The heap to meld into this heap.
+    *
+    * @timeComplexity `O(m * log(k))` where `m` is the size of the other heap
+    * and `k` is the capacity.
+    */
+   meld(other: Heap<T>): void {
+      if (other === this) return;
+
+      for (const item of other.values()) {
+         this.pushPop(item);
+      }
+      other.clear();
+   }
+
+   /**
+    * Builds a bounded heap from the given array, keeping the first
+    * `capacity` items according to the comparator. The capacity comes
+    * last so that this stays compatible with `Heap.fromArray`.
+    *
+    * @param array The array to build the heap from.
+    * @param comparator The comparator function to use. (Optional)
+    * @param capacity The maximum number of items to retain.
+    * (Default: the length of the array)
+    *
+    * @timeComplexity `O(n * log(k))` where `k` is the capacity.
+    *
+    * @throws RangeError if the capacity is not a positive integer, e.g.
+    * when the array is empty and no capacity is given.
+    *
+    * @returns The heap built from the given array.
+    */
+   static fromArray<T>(
+      array: T[],
+      comparator?: Comparator<T>,
+      capacity: number = array.length
+   ): BoundedHeap<T> {
+      const heap = new BoundedHeap<T>(capacity, comparator);
+      for (const item of array) {
+         heap.pushPop(item);
+      }
+      return heap;
+   }
+
+   /**
+    * Clones the heap.
+    *
+    * @timeComplexity `O(k)` where `k` is the capacity.
+    */
+   clone(): BoundedHeap<T> {
+      const clonedHeap = new BoundedHeap<T>(this._capacity, this._order);
+      clonedHeap._heap = [...this._heap];
+      return clonedHeap;
+   }
+
+   /**
+    * Converts the heap to an array sorted from best to worst.
+    *
+    * @timeComplexity `O(k * log(k))` where `k` is the capacity.
+    */
+   toArray(): T[] {
+      return [...this._heap].sort(this._order);
+   }
+}
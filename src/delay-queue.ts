@@ -0,0 +1,132 @@
+import { PrioritizedQueue } from "./prioritized-queue";
+
+export class DelayQueue<T = any> {
+   private readonly _config: DelayQueueConfig;
+   private _queue = new PrioritizedQueue<T, number>((a, b) => a - b);
+
+   constructor(config: Partial<DelayQueueConfig> = {}) {
+      this._config = { ...defaultDelayQueueConfig, ...config };
+   }
+
+   /**
+    * Adds a value that becomes available after the given delay.
+    *
+    * @param value The value to add to the queue.
+    * @param delay The delay in the clock's unit (milliseconds by default).
+    *
+    * @timeComplexity `O(log(n))`
+    */
+   enqueue(value: T, delay: number): void {
+      this.enqueueAt(value, this._config.clock() + delay);
+   }
+
+   /**
+    * Adds a value that becomes available at the given due time.
+    *
+    * @param value The value to add to the queue.
+    * @param dueTime The time when the value becomes available.
+    *
+    * @timeComplexity `O(log(n))`
+    */
+   enqueueAt(value: T, dueTime: number): void {
+      this._queue.enqueue(value, dueTime);
+   }
+
+   /**
+    * Removes and returns the value with the earliest due time, but only
+    * if it's already due.
+    *
+    * @timeComplexity `O(log(n))`
+    *
+    * @returns The due value or undefined if no value is due yet.
+    */
+   dequeue(): T | undefined {
+      if (!this._isFrontDue()) return;
+      return this._queue.dequeue();
+   }
+
+   /**
+    * Removes and returns all values that are due, from the earliest
+    * due time to the latest.
+    *
+    * @timeComplexity `O(k * log(n))` where `k` is the number of due values.
+    *
+    * @returns An array of the due values.
+    */
+   dequeueDue(): T[] {
+      const values: T[] = [];
+      const now = this._config.clock();
+      while (!this._queue.isEmpty() && this._queue.frontPriority()! <= now) {
+         values.push(this._queue.dequeue() as T);
+      }
+      return values;
+   }
+
+   /**
+    * Returns the value with the earliest due time without removing it,
+    * whether it's due or not.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The value or undefined if the queue is empty.
+    */
+   front(): T | undefined {
+      return this._queue.front();
+   }
+
+   /**
+    * Returns the earliest due time in the queue, which can be used to
+    * schedule a single timer.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The earliest due time or undefined if the queue is empty.
+    */
+   nextDueTime(): number | undefined {
+      return this._queue.frontPriority();
+   }
+
+   /**
+    * Returns the number of values in the queue, including the ones that
+    * aren't due yet.
+    *
+    * @timeComplexity `O(1)`
+    */
+   size(): number {
+      return this._queue.size();
+   }
+
+   /**
+    * Returns true if the queue is empty, false otherwise.
+    *
+    * @timeComplexity `O(1)`
+    */
+   isEmpty(): boolean {
+      return this._queue.isEmpty();
+   }
+
+   /**
+    * Removes all values from the queue.
+    *
+    * @timeComplexity `O(1)`
+    */
+   clear(): void {
+      this._queue.clear();
+   }
+
+   private _isFrontDue(): boolean {
+      const dueTime = this._queue.frontPriority();
+      return dueTime !== undefined && dueTime <= this._config.clock();
+   }
+}
+
+const defaultDelayQueueConfig = {
+   /**
+    * The function that returns the current time. This can be replaced
+    * to control time in tests.
+    * @default Date.now
+    */
+   clock: (): number => Date.now(),
+};
+
+export type DelayQueueConfig = typeof defaultDelayQueueConfig;
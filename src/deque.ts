@@ -1,14 +1,41 @@
 import { Queue } from "./queue";
 
 export class Deque<T = any> extends Queue<T> {
+   private readonly _config: DequeConfig;
+
+   constructor(config: Partial<DequeConfig> = {}) {
+      super();
+      this._config = { ...defaultDequeConfig, ...config };
+      if (!(this._config.maxLength >= 0)) {
+         throw new RangeError("Max length must not be negative.");
+      }
+   }
+
+   /**
+    * Adds a value to the end of the queue. If the queue is at its max
+    * length, the value at the front is dropped.
+    *
+    * @param value The value to add to the queue.
+    *
+    * @timeComplexity `O(1)`
+    */
+   enqueue(value: T): void {
+      if (this._config.maxLength === 0) return;
+      if (this.size() >= this._config.maxLength) this.dequeue();
+      super.enqueue(value);
+   }
+
    /**
-    * Adds a value to the front of the queue.
+    * Adds a value to the front of the queue. If the queue is at its max
+    * length, the value at the back is dropped.
     *
     * @param value The value to add to the front of the queue.
     *
     * @timeComplexity `O(1)`
     */
    enqueueFront(value: T): void {
+      if (this._config.maxLength === 0) return;
+      if (this.size() >= this._config.maxLength) this.dequeueBack();
       this._list.prepend(value);
    }
 
@@ -27,4 +54,112 @@ export class Deque<T = any> extends Queue<T> {
          return value;
       }
    }
+
+   /**
+    * Returns the value at the given position of the queue.
+    *
+    * @param index The position of the value, starting from the front.
+    * Negative indices count back from the back of the queue.
+    *
+    * @timeComplexity `O(min(i, n - i))`
+    *
+    * @returns The value at the given position or undefined if the index
+    * is out of bounds.
+    */
+   at(index: number): T | undefined {
+      return this._list.at(index)?.value;
+   }
+
+   /**
+    * Rotates the queue `k` steps to the right, moving values from the back
+    * to the front. Negative values of `k` rotate to the left.
+    *
+    * @param k The number of steps to rotate. (Default: `1`)
+    *
+    * @timeComplexity `O(min(k, n - k))`
+    */
+   rotate(k: number = 1): void {
+      const size = this.size();
+      if (size <= 1) return;
+
+      let steps = ((k % size) + size) % size;
+      if (steps <= size / 2) {
+         for (; steps > 0; steps--) {
+            const tail = this._list.tail()!;
+            this._list.deleteNode(tail);
+            this._list.prepend(tail.value);
+         }
+      } else {
+         for (steps = size - steps; steps > 0; steps--) {
+            const head = this._list.head()!;
+            this._list.deleteNode(head);
+            this._list.append(head.value);
+         }
+      }
+   }
+
+   /**
+    * Reverses the order of the values in the queue.
+    *
+    * @timeComplexity `O(n)`
+    */
+   reverse(): void {
+      let left = this._list.head();
+      let right = this._list.tail();
+      for (let i = 0; i < this.size() >> 1; i++) {
+         const value = left!.value;
+         left!.value = right!.value;
+         right!.value = value;
+         left = left!.next();
+         right = right!.prev();
+      }
+   }
+
+   /**
+    * Returns the maximum number of values the queue can hold.
+    *
+    * @timeComplexity `O(1)`
+    */
+   maxLength(): number {
+      return this._config.maxLength;
+   }
+
+   /**
+    * Creates a copy of the queue.
+    *
+    * @timeComplexity `O(n)`
+    */
+   clone(): Deque<T> {
+      const deque = new Deque<T>(this._config);
+      deque._list = this._list.clone();
+      return deque;
+   }
+
+   /**
+    * Creates a queue from an array of values. If the array is longer than
+    * the max length, only the last values are kept.
+    *
+    * @param array The array of values.
+    * @param config The configuration of the queue. (Optional)
+    *
+    * @timeComplexity `O(n)`
+    */
+   static fromArray<T>(array: T[], config?: Partial<DequeConfig>): Deque<T> {
+      const deque = new Deque<T>(config);
+      for (const value of array) {
+         deque.enqueue(value);
+      }
+      return deque;
+   }
 }
+
+const defaultDequeConfig = {
+   /**
+    * The maximum number of values the queue can hold. Adding a value to
+    * a full queue drops a value from the opposite end.
+    * @default Infinity
+    */
+   maxLength: Infinity,
+};
+
+export type DequeConfig = typeof defaultDequeConfig;
@@ -0,0 +1,527 @@
+import { Comparator, defaultComparator } from "@/utils/comparator";
+import { PriorityQueue } from "@/utils/priority-queue";
+import { NodeOwner } from "@/utils/node-owner";
+
+export class FibonacciHeap<T = number> implements PriorityQueue<T> {
+   private _min: FibonacciHeapNode<T> | undefined = undefined;
+   private _size: number = 0;
+   private _comparator: Comparator<T> = defaultComparator;
+   private _owner = new NodeOwner<FibonacciHeap<T>>(this);
+
+   /**
+    * Creates a new instance of FibonacciHeap.
+    *
+    * @param comparator The comparator function to use. (Optional)
+    */
+   constructor(comparator?: Comparator<T>) {
+      if (comparator) this._comparator = comparator;
+   }
+
+   /**
+    * Returns the number of elements in the heap.
+    *
+    * @timeComplexity `O(1)`
+    */
+   size(): number {
+      return this._size;
+   }
+
+   /**
+    * Returns true if the heap is empty, false otherwise.
+    *
+    * @timeComplexity `O(1)`
+    */
+   isEmpty(): boolean {
+      return this._size === 0;
+   }
+
+   /**
+    * Returns the top element of the heap without removing it.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The top element of the heap or undefined if
+    * the heap is empty.
+    */
+   peek(): T | undefined {
+      return this._min?.value;
+   }
+
+   /**
+    * Adds elements to the heap.
+    *
+    * @timeComplexity `O(k)` where `k` is the number of items to add.
+    *
+    * @param items The elements to add to the heap.
+    */
+   push(...items: T[]): void {
+      for (const item of items) {
+         this.insert(item);
+      }
+   }
+
+   /**
+    * Adds an element to the heap.
+    *
+    * @param item The element to add.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The node of the element, which can be used as a handle
+    * for `update` and `remove`.
+    */
+   insert(item: T): FibonacciHeapNode<T> {
+      const node = new FibonacciHeapNode(item);
+      node.setOwner(this._owner);
+      this._addRoot(node);
+      this._size++;
+      return node;
+   }
+
+   /**
+    * Removes the top element from the heap and returns it.
+    *
+    * @timeComplexity `O(log(n))` amortized
+    *
+    * @returns The top element of the heap or undefined if
+    * the heap is empty.
+    */
+   pop(): T | undefined {
+      const min = this._min;
+      if (min === undefined) return;
+
+      this._removeRoot(min);
+      min.dispose();
+      this._size--;
+      return min.value;
+   }
+
+   /**
+    * Changes the value of a node and moves it to its correct position.
+    *
+    * @param node The node to update.
+    * @param value The new value of the node.
+    *
+    * @timeComplexity `O(1)` amortized if the new value has a higher
+    * priority, otherwise `O(log(n))` amortized.
+    *
+    * @throws Error if the node belongs to another heap, or was left over
+    * from `clear`.
+    *
+    * @returns True if the node was updated, false if it's no longer
+    * in the heap.
+    */
+   update(node: FibonacciHeapNode<T>, value: T): boolean {
+      if (node.isDisposed()) return false;
+      this._assertOwned(node);
+
+      if (this._comparator(value, node.value) <= 0) {
+         node.value = value;
+         const parent = node.parent;
+         if (
+            parent !== undefined &&
+            this._comparator(node.value, parent.value) < 0
+         ) {
+            this._cut(node);
+            this._cascadingCut(parent);
+         }
+         if (this._comparator(node.value, this._min!.value) < 0) {
+            this._min = node;
+         }
+      } else {
+         this._detach(node);
+         node.value = value;
+         this._addRoot(node);
+      }
+
+      return true;
+   }
+
+   /**
+    * Removes a node from the heap.
+    *
+    * @param node The node to remove.
+    *
+    * @timeComplexity `O(log(n))` amortized
+    *
+    * @throws Error if the node belongs to another heap, or was left over
+    * from `clear`.
+    *
+    * @returns True if the node was removed, false if it's no longer
+    * in the heap.
+    */
+   remove(node: FibonacciHeapNode<T>): boolean {
+      if (node.isDisposed()) return false;
+      this._assertOwned(node);
+
+      this._detach(node);
+      node.dispose();
+      this._size--;
+      return true;
+   }
+
+   /**
+    * Moves all elements of another heap into this heap. The other heap
+    * will be empty afterwards, and its nodes will belong to this heap.
+    *
+    * Both heaps are expected to use the same comparator.
+    *
+    * @param other The heap to meld into this heap.
+    *
+    * @timeComplexity `O(1)`
+    */
+   meld(other: FibonacciHeap<T>): void {
+      if (other === this || other._min === undefined) return;
+
+      if (this._min === undefined) {
+         this._min = other._min;
+      } else {
+         // Splice the two circular root lists together
+         const otherMin = other._min;
+         const thisNext = this._min.right;
+         const otherPrev = otherMin.left;
+         this._min.right = otherMin;
+         otherMin.left = this._min;
+         thisNext.left = otherPrev;
+         otherPrev.right = thisNext;
+
+         if (this._comparator(otherMin.value, this._min.value) < 0) {
+            this._min = otherMin;
+         }
+      }
+
+      this._size += other._size;
+      other._owner.forwardTo(this._owner);
+      other._owner = new NodeOwner(other);
+      other._min = undefined;
+      other._size = 0;
+   }
+
+   /**
+    * Clears the heap.
+    *
+    * Note: For efficiency, this doesn't dispose nodes one by one. The old
+    * nodes no longer belong to the heap, so `update` and `remove` reject
+    * them.
+    *
+    * @timeComplexity `O(1)`
+    */
+   clear(): void {
+      this._owner.release();
+      this._owner = new NodeOwner(this);
+      this._min = undefined;
+      this._size = 0;
+   }
+
+   /**
+    * Clones the heap. The nodes of the clone are new nodes.
+    *
+    * @timeComplexity `O(n)`
+    */
+   clone(): FibonacciHeap<T> {
+      return FibonacciHeap.fromArray([...this.values()], this._comparator);
+   }
+
+   /**
+    * Converts the heap to a sorted array.
+    *
+    * @timeComplexity `O(n * log(n))`
+    */
+   toArray(): T[] {
+      return [...this.values()].sort(this._comparator);
+   }
+
+   /**
+    * Returns an iterator over the elements of the heap in no
+    * particular order.
+    *
+    * @timeComplexity `O(n)`
+    */
+   *values(): IterableIterator<T> {
+      function* traverse(
+         first: FibonacciHeapNode<T> | undefined
+      ): Generator<T> {
+         if (first === undefined) return;
+         let current = first;
+         do {
+            yield current.value;
+            yield* traverse(current.child);
+            current = current.right;
+         } while (current !== first);
+      }
+
+      yield* traverse(this._min);
+   }
+
+   *[Symbol.iterator](): IterableIterator<T> {
+      yield* this.values();
+   }
+
+   /**
+    * Builds a heap from the given array.
+    *
+    * @param array The array to build the heap from.
+    * @param comparator The comparator function to use. (Optional)
+    *
+    * @timeComplexity `O(n)`
+    *
+    * @returns The heap built from the given array.
+    */
+   static fromArray<T>(
+      array: T[],
+      comparator?: Comparator<T>
+   ): FibonacciHeap<T> {
+      const heap = new FibonacciHeap<T>(comparator);
+      for (const item of array) {
+         heap.insert(item);
+      }
+      return heap;
+   }
+
+   private _assertOwned(node: FibonacciHeapNode<T>): void {
+      if (node.heap() !== this) {
+         throw new Error("Node does not belong to this heap.");
+      }
+   }
+
+   /**
+    * Adds a detached node to the root list.
+    *
+    * @param node The node to add.
+    */
+   private _addRoot(node: FibonacciHeapNode<T>): void {
+      node.parent = undefined;
+      node.mark = false;
+      if (this._min === undefined) {
+         node.left = node;
+         node.right = node;
+         this._min = node;
+         return;
+      }
+
+      node.left = this._min;
+      node.right = this._min.right;
+      this._min.right.left = node;
+      this._min.right = node;
+      if (this._comparator(node.value, this._min.value) < 0) {
+         this._min = node;
+      }
+   }
+
+   /**
+    * Removes a root from the root list, moves its children to the root
+    * list and consolidates the heap.
+    *
+    * @param root The root to remove.
+    */
+   private _removeRoot(root: FibonacciHeapNode<T>): void {
+      // Move the children to the root list
+      let child = root.child;
+      if (child !== undefined) {
+         const children: FibonacciHeapNode<T>[] = [];
+         do {
+            children.push(child);
+            child = child.right;
+         } while (child !== root.child);
+         for (const node of children) {
+            this._addRoot(node);
+         }
+         root.child = undefined;
+      }
+
+      if (root.right === root) {
+         this._min = undefined;
+         return;
+      }
+
+      root.left.right = root.right;
+      root.right.left = root.left;
+      this._min = root.right;
+      this._consolidate();
+   }
+
+   /**
+    * Links the roots with the same degree until every root has a unique
+    * degree, then finds the new top element.
+    */
+   private _consolidate(): void {
+      const roots: FibonacciHeapNode<T>[] = [];
+      let current = this._min!;
+      do {
+         roots.push(current);
+         current = current.right;
+      } while (current !== this._min);
+
+      const byDegree: (FibonacciHeapNode<T> | undefined)[] = [];
+      for (let node of roots) {
+         let degree = node.degree;
+         let other = byDegree[degree];
+         while (other !== undefined) {
+            if (this._comparator(other.value, node.value) < 0) {
+               [node, other] = [other, node];
+            }
+            this._link(other, node);
+            byDegree[degree] = undefined;
+            degree++;
+            other = byDegree[degree];
+         }
+         byDegree[degree] = node;
+      }
+
+      this._min = undefined;
+      for (const node of byDegree) {
+         if (node !== undefined) this._addRoot(node);
+      }
+   }
+
+   /**
+    * Makes a root the child of another root.
+    *
+    * @param child The root to make a child.
+    * @param parent The root to make the parent.
+    */
+   private _link(
+      child: FibonacciHeapNode<T>,
+      parent: FibonacciHeapNode<T>
+   ): void {
+      child.left.right = child.right;
+      child.right.left = child.left;
+
+      child.parent = parent;
+      child.mark = false;
+      if (parent.child === undefined) {
+         child.left = child;
+         child.right = child;
+         parent.child = child;
+      } else {
+         child.left = parent.child;
+         child.right = parent.child.right;
+         parent.child.right.left = child;
+         parent.child.right = child;
+      }
+      parent.degree++;
+   }
+
+   /**
+    * Cuts a node from its parent and moves it to the root list.
+    *
+    * @param node The node to cut.
+    */
+   private _cut(node: FibonacciHeapNode<T>): void {
+      const parent = node.parent!;
+      if (node.right === node) {
+         parent.child = undefined;
+      } else {
+         if (parent.child === node) parent.child = node.right;
+         node.left.right = node.right;
+         node.right.left = node.left;
+      }
+      parent.degree--;
+      this._addRoot(node);
+   }
+
+   /**
+    * Cuts the marked ancestors of a node that just lost a child.
+    *
+    * @param node The node that lost a child.
+    */
+   private _cascadingCut(node: FibonacciHeapNode<T>): void {
+      let current = node;
+      while (current.parent !== undefined) {
+         if (!current.mark) {
+            current.mark = true;
+            return;
+         }
+
+         const parent = current.parent;
+         this._cut(current);
+         current = parent;
+      }
+   }
+
+   /**
+    * Takes a node out of the heap and puts its children back, leaving the
+    * node without any links.
+    *
+    * @param node The node to detach.
+    */
+   private _detach(node: FibonacciHeapNode<T>): void {
+      const parent = node.parent;
+      if (parent !== undefined) {
+         this._cut(node);
+         this._cascadingCut(parent);
+      }
+
+      // Removing a root always recomputes the top element, so it doesn't
+      // matter whether the node actually had the highest priority.
+      this._removeRoot(node);
+      node.degree = 0;
+   }
+}
+
+/**
+ * A node of a FibonacciHeap. Its links are managed by the heap, so they
+ * shouldn't be modified directly.
+ */
+export class FibonacciHeapNode<T> {
+   public value: T;
+   public parent: FibonacciHeapNode<T> | undefined = undefined;
+   public child: FibonacciHeapNode<T> | undefined = undefined;
+   public left: FibonacciHeapNode<T> = this;
+   public right: FibonacciHeapNode<T> = this;
+   public degree: number = 0;
+   public mark: boolean = false;
+   private _isDisposed = false;
+   private _owner: NodeOwner<FibonacciHeap<T>> | undefined = undefined;
+
+   constructor(value: T) {
+      this.value = value;
+   }
+
+   /**
+    * Get the heap that this node belongs to.
+    *
+    * @timeComplexity `O(α(n))` amortized
+    *
+    * @returns The owning heap, or undefined if the node isn't in any heap.
+    */
+   heap(): FibonacciHeap<T> | undefined {
+      return this._owner?.get();
+   }
+
+   /**
+    * Check if the node is no longer in a heap.
+    *
+    * @timeComplexity `O(1)`
+    */
+   isDisposed(): boolean {
+      return this._isDisposed;
+   }
+
+   /**
+    * Change the owner of this node.
+    *
+    * For internal use only.
+    *
+    * @timeComplexity `O(1)`
+    */
+   setOwner(owner: NodeOwner<FibonacciHeap<T>> | undefined): void {
+      this._owner = owner;
+   }
+
+   /**
+    * Dispose this node.
+    *
+    * For internal use only.
+    *
+    * @timeComplexity `O(1)`
+    */
+   dispose(): void {
+      this._isDisposed = true;
+      this._owner = undefined;
+      this.parent = undefined;
+      this.child = undefined;
+      this.left = this;
+      this.right = this;
+   }
+}
@@ -1,9 +1,10 @@
 import { swap } from "@/utils/common";
 import { Comparator, defaultComparator } from "@/utils/comparator";
+import { PriorityQueue } from "@/utils/priority-queue";
 
-export class Heap<T = number> {
-   private _heap: T[] = [];
-   private _comparator: Comparator<T> = defaultComparator;
+export class Heap<T = number> implements PriorityQueue<T> {
+   protected _heap: T[] = [];
+   protected _comparator: Comparator<T> = defaultComparator;
 
    /**
     * Creates a new instance of Heap.
@@ -40,7 +41,7 @@ export class Heap<T = number> {
     * @returns Returns the top element of the heap or undefined if
     * the heap is empty.
     */
-   peek(): T | void {
+   peek(): T | undefined {
       return this.isEmpty() ? undefined : this._heap[0];
    }
 
@@ -102,13 +103,60 @@ export class Heap<T = number> {
     * @timeComplexity `O(n * log(n))`
     */
    toArray(): T[] {
-      const clone = this.clone();
-      const result: T[] = [];
-      while (!clone.isEmpty()) {
-         result.push(clone.pop() as T);
+      return [...this._heap].sort(this._comparator);
+   }
+
+   /**
+    * Moves all elements of another heap into this heap. The other heap
+    * will be empty afterwards.
+    *
+    * Both heaps are expected to use the same comparator.
+    *
+    * @param other The heap to meld into this heap.
+    *
+    * @timeComplexity `O(n + m)` where `m` is the size of the other heap.
+    */
+   meld(other: Heap<T>): void {
+      if (other === this) return;
+
+      for (const item of other._heap) {
+         this._append(item);
       }
+      other.clear();
+      this._heapify();
+   }
+
+   /**
+    * Returns an iterator over the elements of the heap in no
+    * particular order.
+    *
+    * @timeComplexity `O(n)`
+    */
+   *values(): IterableIterator<T> {
+      yield* this._heap;
+   }
+
+   *[Symbol.iterator](): IterableIterator<T> {
+      yield* this.values();
+   }
 
-      return result;
+   /**
+    * Creates a new heap containing the elements of both heaps. The given
+    * heaps are left unchanged.
+    *
+    * Both heaps are expected to use the same comparator.
+    *
+    * @param a The first heap. Its comparator is used for the new heap.
+    * @param b The second heap.
+    *
+    * @timeComplexity `O(n + m)`
+    *
+    * @returns The merged heap.
+    */
+   static merge<T>(a: Heap<T>, b: Heap<T>): Heap<T> {
+      const heap = a.clone();
+      heap.meld(b.clone());
+      return heap;
    }
 
    /**
@@ -117,26 +165,46 @@ export class Heap<T = number> {
     * @param array The array to build the heap from.
     * @param comparator The comparator function to use. (Optional)
     *
-    * @timeComplexity `O(n * log(n))`
+    * @timeComplexity `O(n)`
     *
     * @returns The heap built from the given array.
     */
    static fromArray<T>(array: T[], comparator?: Comparator<T>): Heap<T> {
       const heap = new Heap<T>(comparator);
       heap._heap = [...array];
-      for (let i = heap.size() - 1; i >= 0; i--) {
-         heap._heapifyDown(i);
-      }
+      heap._heapify();
       return heap;
    }
 
+   /**
+    * Restores the heap property of the whole underlying array by sifting
+    * down every parent, starting from the last one.
+    *
+    * @timeComplexity `O(n)`
+    */
+   protected _heapify(): void {
+      for (let i = this._getParentIndex(this.size() - 1); i >= 0; i--) {
+         this._heapifyDown(i);
+      }
+   }
+
+   /**
+    * Adds an element to the end of the underlying array without restoring
+    * the heap property.
+    *
+    * @param item The element to add.
+    */
+   protected _append(item: T): void {
+      this._heap.push(item);
+   }
+
    /**
     * Moves the element at the given index down the heap to its
     * correct position.
     *
     * @param index The index of the element to move down.
     */
-   private _heapifyDown(index: number): void {
+   protected _heapifyDown(index: number): void {
       let currentIndex = index;
       while (this._getLeftChildIndex(currentIndex) < this.size()) {
          let smallestChildIndex = this._getLeftChildIndex(currentIndex);
@@ -155,7 +223,7 @@ export class Heap<T = number> {
                this._heap[smallestChildIndex]
             ) > 0
          ) {
-            swap(this._heap, currentIndex, smallestChildIndex);
+            this._swap(currentIndex, smallestChildIndex);
             currentIndex = smallestChildIndex;
          } else {
             break;
@@ -168,7 +236,7 @@ export class Heap<T = number> {
     *
     * @param index The index of the element to move up.
     */
-   private _heapifyUp(index: number): void {
+   protected _heapifyUp(index: number): void {
       let currentIndex = index;
       while (
          this._getParentIndex(currentIndex) >= 0 &&
@@ -178,20 +246,30 @@ export class Heap<T = number> {
          ) < 0
       ) {
          const parentIndex = this._getParentIndex(currentIndex);
-         swap(this._heap, currentIndex, parentIndex);
+         this._swap(currentIndex, parentIndex);
          currentIndex = parentIndex;
       }
    }
 
-   private _getParentIndex(index: number): number {
+   /**
+    * Swaps the elements at the given indices.
+    *
+    * @param i The index of the first element.
+    * @param j The index of the second element.
+    */
+   protected _swap(i: number, j: number): void {
+      swap(this._heap, i, j);
+   }
+
+   protected _getParentIndex(index: number): number {
       return (index - 1) >> 1;
    }
 
-   private _getLeftChildIndex(index: number): number {
+   protected _getLeftChildIndex(index: number): number {
       return (index << 1) + 1;
    }
 
-   private _getRightChildIndex(index: number): number {
+   protected _getRightChildIndex(index: number): number {
       return (index << 1) + 2;
    }
 }
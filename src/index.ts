@@ -1,11 +1,29 @@
 export { Heap } from "./heap";
+export { IndexedHeap } from "./indexed-heap";
+export { BoundedHeap } from "./bounded-heap";
+export { MinMaxHeap } from "./min-max-heap";
+export { PairingHeap } from "./pairing-heap";
+export { FibonacciHeap } from "./fibonacci-heap";
 export { Queue } from "./queue";
 export { Deque } from "./deque";
-export { LinkedList } from "./linked-list";
+export { ArrayDeque } from "./array-deque";
+export { MonotonicQueue } from "./monotonic-queue";
+export { AsyncQueue } from "./async-queue";
+export { PrioritizedQueue } from "./prioritized-queue";
+export { DelayQueue } from "./delay-queue";
+export { LinkedList, LinkedListCursor } from "./linked-list";
+export { SortedLinkedList } from "./sorted-linked-list";
+export { SkipList } from "./skip-list";
 export { Trie } from "./trie";
+export { TrieMap } from "./trie-map";
+export { RadixTrie } from "./radix-trie";
+export { AhoCorasick } from "./aho-corasick";
 export { DisjointSet } from "./disjoint-set";
 export { Quadtree } from "./quadtree";
 export { LRUCache } from "./lru-cache";
 export { SegmentTree } from "./segment-tree";
 export { BinarySearchTree } from "./binary-search-tree";
 export { IntervalTree } from "./interval-tree";
+export { tokenizers, normalizers } from "./utils/tokenizer";
+export type { PriorityQueue } from "./utils/priority-queue";
+export type { Tokenizer, Normalizer } from "./utils/tokenizer";
@@ -0,0 +1,242 @@
+import { Heap } from "./heap";
+import { Comparator } from "./utils/comparator";
+
+export class IndexedHeap<T = number> extends Heap<T> {
+   private _indices = new Map<T, number>();
+
+   /**
+    * Creates a new instance of IndexedHeap.
+    *
+    * Each item can only be in the heap once, since items are used as
+    * their own handles for `update`, `remove` and `has`.
+    *
+    * @param comparator The comparator function to use. (Optional)
+    */
+   constructor(comparator?: Comparator<T>) {
+      super(comparator);
+   }
+
+   /**
+    * Adds elements to the heap.
+    *
+    * @timeComplexity `O(k * log(n))` where `k` is the number of items to add.
+    *
+    * @param items The elements to add to the heap.
+    *
+    * @throws Error if an item already exists in the heap.
+    */
+   push(...items: T[]): void {
+      for (const item of items) {
+         if (this._indices.has(item)) {
+            throw new Error("Item already exists in the heap.");
+         }
+
+         this._append(item);
+         this._heapifyUp(this.size() - 1);
+      }
+   }
+
+   /**
+    * Removes the top element from the heap and returns it.
+    *
+    * @timeComplexity `O(log(n))`
+    *
+    * @returns The top element of the heap or undefined if
+    * the heap is empty.
+    */
+   pop(): T | undefined {
+      if (this.isEmpty()) return;
+      return this._removeAt(0);
+   }
+
+   /**
+    * Checks if an item is in the heap.
+    *
+    * @param item The item to check.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns True if the item is in the heap, otherwise false.
+    */
+   has(item: T): boolean {
+      return this._indices.has(item);
+   }
+
+   /**
+    * Restores the position of an item after its priority has changed.
+    *
+    * If `newItem` is given, it takes the place of `item` in the heap.
+    * Otherwise, `item` is assumed to have been mutated in place.
+    *
+    * @param item The item to update.
+    * @param newItem The item to replace it with. (Optional)
+    *
+    * @timeComplexity `O(log(n))`
+    *
+    * @throws Error if `newItem` is a different item that already exists
+    * in the heap.
+    *
+    * @returns True if the item was updated, false if it wasn't found.
+    */
+   update(item: T, newItem: T = item): boolean {
+      const index = this._indices.get(item);
+      if (index === undefined) return false;
+
+      if (newItem !== item) {
+         if (this._indices.has(newItem)) {
+            throw new Error("Item already exists in the heap.");
+         }
+
+         this._indices.delete(item);
+         this._heap[index] = newItem;
+         this._indices.set(newItem, index);
+      }
+
+      this._restore(index);
+      return true;
+   }
+
+   /**
+    * Removes an item from the heap.
+    *
+    * @param item The item to remove.
+    *
+    * @timeComplexity `O(log(n))`
+    *
+    * @returns True if the item was removed, false if it wasn't found.
+    */
+   remove(item: T): boolean {
+      const index = this._indices.get(item);
+      if (index === undefined) return false;
+
+      this._removeAt(index);
+      return true;
+   }
+
+   /**
+    * Clears the heap.
+    *
+    * @timeComplexity `O(1)`
+    */
+   clear(): void {
+      super.clear();
+      this._indices = new Map();
+   }
+
+   /**
+    * Clones the heap.
+    *
+    * @timeComplexity `O(n)`
+    */
+   clone(): IndexedHeap<T> {
+      const clonedHeap = new IndexedHeap<T>(this._comparator);
+      clonedHeap._heap = [...this._heap];
+      clonedHeap._indices = new Map(this._indices);
+      return clonedHeap;
+   }
+
+   /**
+    * Moves all elements of another heap into this heap. The other heap
+    * will be empty afterwards.
+    *
+    * Both heaps are expected to use the same comparator.
+    *
+    * @param other The heap to meld into this heap.
+    *
+    * @timeComplexity `O(n + m)` where `m` is the size of the other heap.
+    *
+    * @throws Error if both heaps contain the same item, or if the other
+    * heap contains an item more than once.
+    */
+   meld(other: Heap<T>): void {
+      if (other === this) return;
+
+      const seen = new Set<T>();
+      for (const item of other.values()) {
+         if (this._indices.has(item) || seen.has(item)) {
+            throw new Error("Item already exists in the heap.");
+         }
+         seen.add(item);
+      }
+
+      super.meld(other);
+   }
+
+   /**
+    * Builds a heap from the given array.
+    *
+    * @param array The array to build the heap from.
+    * @param comparator The comparator function to use. (Optional)
+    *
+    * @timeComplexity `O(n)`
+    *
+    * @throws Error if the array contains duplicate items.
+    *
+    * @returns The heap built from the given array.
+    */
+   static fromArray<T>(
+      array: T[],
+      comparator?: Comparator<T>
+   ): IndexedHeap<T> {
+      const heap = new IndexedHeap<T>(comparator);
+      for (const item of array) {
+         if (heap._indices.has(item)) {
+            throw new Error("Item already exists in the heap.");
+         }
+         heap._append(item);
+      }
+      heap._heapify();
+      return heap;
+   }
+
+   protected _append(item: T): void {
+      super._append(item);
+      this._indices.set(item, this.size() - 1);
+   }
+
+   protected _swap(i: number, j: number): void {
+      super._swap(i, j);
+      this._indices.set(this._heap[i], i);
+      this._indices.set(this._heap[j], j);
+   }
+
+   /**
+    * Removes the element at the given index and fills the gap with the
+    * last element of the heap.
+    *
+    * @param index The index of the element to remove.
+    *
+    * @returns The removed element.
+    */
+   private _removeAt(index: number): T {
+      const removedValue = this._heap[index];
+      const last = this._heap.pop() as T;
+      this._indices.delete(removedValue);
+
+      if (index < this.size()) {
+         this._heap[index] = last;
+         this._indices.set(last, index);
+         this._restore(index);
+      }
+
+      return removedValue;
+   }
+
+   /**
+    * Moves the element at the given index up or down the heap to its
+    * correct position.
+    *
+    * @param index The index of the element to move.
+    */
+   private _restore(index: number): void {
+      const parentIndex = this._getParentIndex(index);
+      if (
+         index > 0 &&
+         this._comparator(this._heap[index], this._heap[parentIndex]) < 0
+      ) {
+         this._heapifyUp(index);
+      } else {
+         this._heapifyDown(index);
+      }
+   }
+}
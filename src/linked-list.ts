@@ -1,7 +1,16 @@
+import { Comparator, defaultComparator } from "./utils/comparator";
+import { NodeOwner } from "./utils/node-owner";
+
 export class LinkedList<T = any> implements Iterable<ListNode<T>> {
+   private readonly _config: LinkedListConfig;
    private _head: ListNode<T> | undefined = undefined;
    private _tail: ListNode<T> | undefined = undefined;
    private _size: number = 0;
+   private _owner = new NodeOwner<LinkedList<T>>(this);
+
+   constructor(config: Partial<LinkedListConfig> = {}) {
+      this._config = { ...defaultLinkedListConfig, ...config };
+   }
 
    /**
     * Adds a node with the specified value to the end of the list.
@@ -13,7 +22,7 @@ export class LinkedList<T = any> implements Iterable<ListNode<T>> {
     * @returns The newly added node.
     */
    append(value: T): ListNode<T> {
-      const newNode = new ListNode(value);
+      const newNode = this._createNode(value);
       if (!this._head) {
          this._head = newNode;
          this._tail = newNode;
@@ -24,12 +33,13 @@ export class LinkedList<T = any> implements Iterable<ListNode<T>> {
       }
 
       this._size++;
+      this._afterMutation();
 
       return newNode;
    }
 
    /**
-    * Adds a node with the specified value to the end of the list.
+    * Adds a node with the specified value to the start of the list.
     *
     * @param value The value of the node to add.
     *
@@ -52,50 +62,34 @@ export class LinkedList<T = any> implements Iterable<ListNode<T>> {
     *
     * @timeComplexity `O(1)`
     *
-    * @returns True if the node is deleted, otherwise false.
+    * @throws Error if the node was already deleted or isn't in this list,
+    * including nodes left over from `clear`.
+    *
+    * @returns True once the node is deleted.
     */
    deleteNode(node: ListNode<T>): boolean {
-      if (this._head === undefined) return false;
-      if (node.isDisposed()) return false;
-
-      if (this._head === node) {
-         this._head = this._head.next();
-         if (this._head !== undefined) {
-            this._head.setPrev(undefined);
-         } else {
-            this._tail = undefined;
-         }
-         node.dispose();
-         this._size--;
-         return true;
-      } else if (this._tail === node) {
-         this._tail = this._tail.prev();
-         if (this._tail !== undefined) {
-            this._tail.setNext(undefined);
-         } else {
-            this._head = undefined;
-         }
-         node.dispose();
-         this._size--;
-         return true;
+      this._assertOwned(node);
+
+      const prev = node.prev();
+      const next = node.next();
+      if (prev !== undefined) {
+         prev.setNext(next);
       } else {
-         let next = node.next();
-         let prev = node.prev();
-         if (
-            next !== undefined &&
-            prev !== undefined &&
-            prev.next() === node &&
-            next.prev() === node
-         ) {
-            next.setPrev(node.prev());
-            prev.setNext(node.next());
-            node.dispose();
-            this._size--;
-            return true;
-         }
+         this._head = next;
+      }
+      if (next !== undefined) {
+         next.setPrev(prev);
+      } else {
+         this._tail = prev;
+      }
 
-         return false;
+      for (const cursor of node.cursors()) {
+         cursor.handleDelete(node, prev, next);
       }
+      node.dispose();
+      this._size--;
+      this._afterMutation();
+      return true;
    }
 
    /**
@@ -106,10 +100,13 @@ export class LinkedList<T = any> implements Iterable<ListNode<T>> {
     *
     * @timeComplexity `O(1)`
     *
+    * @throws Error if the given node isn't in this list.
+    *
     * @returns The newly added node.
     */
    insertAfter(afterNode: ListNode<T>, value: T): ListNode<T> {
-      const newNode = new ListNode(value);
+      this._assertOwned(afterNode);
+      const newNode = this._createNode(value);
       newNode.setNext(afterNode.next());
       newNode.setPrev(afterNode);
       let afterNodeNext = afterNode.next();
@@ -121,6 +118,7 @@ export class LinkedList<T = any> implements Iterable<ListNode<T>> {
       afterNode.setNext(newNode);
 
       this._size++;
+      this._afterMutation();
 
       return newNode;
    }
@@ -133,10 +131,13 @@ export class LinkedList<T = any> implements Iterable<ListNode<T>> {
     *
     * @timeComplexity `O(1)`
     *
+    * @throws Error if the given node isn't in this list.
+    *
     * @returns The newly added node.
     */
    insertBefore(beforeNode: ListNode<T>, value: T): ListNode<T> {
-      const newNode = new ListNode(value);
+      this._assertOwned(beforeNode);
+      const newNode = this._createNode(value);
 
       if (this._head === beforeNode) {
          newNode.setNext(this._head);
@@ -153,10 +154,174 @@ export class LinkedList<T = any> implements Iterable<ListNode<T>> {
       }
 
       this._size++;
+      this._afterMutation();
 
       return newNode;
    }
 
+   /**
+    * Moves all nodes of another list to the end of this list. The other
+    * list will be empty afterwards.
+    *
+    * @param other The list whose nodes will be moved.
+    *
+    * @timeComplexity `O(1)`
+    */
+   concat(other: LinkedList<T>): void {
+      if (other === this) {
+         throw new Error("Cannot concatenate a list with itself.");
+      }
+      if (other._head === undefined) return;
+
+      // Hand over the ownership of all the other list's nodes at once
+      other._owner.forwardTo(this._owner);
+      other._owner = new NodeOwner(other);
+
+      if (this._tail === undefined) {
+         this._head = other._head;
+      } else {
+         this._tail.setNext(other._head);
+         other._head.setPrev(this._tail);
+      }
+      this._tail = other._tail;
+      this._size += other._size;
+
+      other._head = undefined;
+      other._tail = undefined;
+      other._size = 0;
+      this._afterMutation();
+      other._afterMutation();
+   }
+
+   /**
+    * Splits the list into two, moving the given node and every node after
+    * it into a new list.
+    *
+    * @param node The node where the new list starts.
+    *
+    * @timeComplexity `O(k)` where `k` is the number of moved nodes.
+    *
+    * @throws Error if the node isn't in this list.
+    *
+    * @returns The new list.
+    */
+   splitAt(node: ListNode<T>): LinkedList<T> {
+      const list = new LinkedList<T>(this._config);
+      this.spliceRange(node, this._tail!, list);
+      return list;
+   }
+
+   /**
+    * Moves a run of nodes to another list (or to another position in
+    * this list).
+    *
+    * @param fromNode The first node of the run.
+    * @param toNode The last node of the run. It must be `fromNode` or come
+    * after it.
+    * @param targetList The list to move the nodes to.
+    * @param afterNode The node in the target list after which the run is
+    * inserted. If omitted, the run is inserted at the start of the list.
+    *
+    * @timeComplexity `O(k)` where `k` is the number of moved nodes.
+    *
+    * @throws Error if the nodes aren't in their respective lists, or if
+    * the run or target position is invalid.
+    */
+   spliceRange(
+      fromNode: ListNode<T>,
+      toNode: ListNode<T>,
+      targetList: LinkedList<T>,
+      afterNode?: ListNode<T>
+   ): void {
+      this._assertOwned(fromNode);
+      this._assertOwned(toNode);
+      if (afterNode !== undefined) targetList._assertOwned(afterNode);
+
+      // Count the run and make sure the target position isn't inside it
+      let count = 1;
+      for (let current = fromNode; current !== toNode; count++) {
+         if (current === afterNode) {
+            throw new Error("Cannot move a run of nodes inside itself.");
+         }
+         const next = current.next();
+         if (next === undefined) {
+            throw new Error("The last node must come after the first node.");
+         }
+         current = next;
+      }
+      if (toNode === afterNode) {
+         throw new Error("Cannot move a run of nodes inside itself.");
+      }
+
+      // Detach the run from this list
+      const before = fromNode.prev();
+      const after = toNode.next();
+      if (before) before.setNext(after);
+      else this._head = after;
+      if (after) after.setPrev(before);
+      else this._tail = before;
+      this._size -= count;
+
+      // Attach the run to the target list
+      const next = afterNode ? afterNode.next() : targetList._head;
+      fromNode.setPrev(afterNode);
+      if (afterNode) afterNode.setNext(fromNode);
+      else targetList._head = fromNode;
+      toNode.setNext(next);
+      if (next) next.setPrev(toNode);
+      else targetList._tail = toNode;
+      targetList._size += count;
+
+      for (let current = fromNode; current !== next; current = current.next()!) {
+         current.setOwner(targetList._owner);
+      }
+      this._afterMutation();
+      if (targetList !== this) targetList._afterMutation();
+   }
+
+   /**
+    * Reverses the order of the nodes in the list.
+    *
+    * @timeComplexity `O(n)`
+    */
+   reverse(): void {
+      let current = this._head;
+      while (current !== undefined) {
+         const next = current.next();
+         current.setNext(current.prev());
+         current.setPrev(next);
+         current = next;
+      }
+
+      const head = this._head;
+      this._head = this._tail;
+      this._tail = head;
+      this._afterMutation();
+   }
+
+   /**
+    * Sorts the nodes of the list in place using merge sort. The sort is
+    * stable and the nodes are relinked rather than copied, so node
+    * references stay valid.
+    *
+    * @param comparator The comparator function for the values.
+    * (Optional)
+    *
+    * @timeComplexity `O(n * log(n))`
+    */
+   sort(comparator: Comparator<T> = defaultComparator): void {
+      this._head = mergeSortNodes(this._head, this._size, comparator);
+
+      // The merge only maintains the next links, so restore the rest
+      let prev: ListNode<T> | undefined = undefined;
+      for (let current = this._head; current; current = current.next()) {
+         current.setPrev(prev);
+         prev = current;
+      }
+      this._tail = prev;
+      this._afterMutation();
+   }
+
    /**
     * Finds a node with a specific value.
     *
@@ -174,6 +339,165 @@ export class LinkedList<T = any> implements Iterable<ListNode<T>> {
       }
    }
 
+   /**
+    * Finds the first node whose value satisfies the predicate.
+    *
+    * @param predicate The function to test each value with.
+    *
+    * @timeComplexity `O(n)`
+    *
+    * @returns The first matching node or undefined if not found.
+    */
+   findNode(
+      predicate: (value: T, node: ListNode<T>, index: number) => boolean
+   ): ListNode<T> | undefined {
+      let index = 0;
+      for (let node of this) {
+         if (predicate(node.value, node, index++)) {
+            return node;
+         }
+      }
+   }
+
+   /**
+    * Returns the position of the first node with a specific value.
+    *
+    * @param value The value to find.
+    *
+    * @timeComplexity `O(n)`
+    *
+    * @returns The index of the node or -1 if not found.
+    */
+   indexOf(value: T): number {
+      let index = 0;
+      for (let node of this) {
+         if (node.value === value) return index;
+         index++;
+      }
+      return -1;
+   }
+
+   /**
+    * Returns the node at the given position, walking from whichever end
+    * of the list is nearer.
+    *
+    * @param index The position of the node. Negative indices count back
+    * from the tail.
+    *
+    * @timeComplexity `O(min(i, n - i))`
+    *
+    * @returns The node or undefined if the index is out of bounds.
+    */
+   at(index: number): ListNode<T> | undefined {
+      if (index < 0) index += this._size;
+      if (index < 0 || index >= this._size) return;
+
+      let current: ListNode<T>;
+      if (index < this._size / 2) {
+         current = this._head!;
+         for (let i = 0; i < index; i++) current = current.next()!;
+      } else {
+         current = this._tail!;
+         for (let i = this._size - 1; i > index; i--) current = current.prev()!;
+      }
+      return current;
+   }
+
+   /**
+    * Creates a cursor that moves around the list in a circle, wrapping
+    * from the tail to the head and the other way around.
+    *
+    * @param node The node to start at. If omitted, the cursor starts
+    * before the head, so the first `next()` moves to the head.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @throws Error if the node isn't in this list.
+    */
+   cursor(node?: ListNode<T>): LinkedListCursor<T> {
+      if (node !== undefined) this._assertOwned(node);
+      return new LinkedListCursor(this, node);
+   }
+
+   /**
+    * Removes every node whose value satisfies the predicate.
+    *
+    * @param predicate The function to test each value with.
+    *
+    * @timeComplexity `O(n)`
+    *
+    * @returns The number of removed nodes.
+    */
+   removeWhere(
+      predicate: (value: T, node: ListNode<T>, index: number) => boolean
+   ): number {
+      let removed = 0;
+      let index = 0;
+      let current = this._head;
+      while (current !== undefined) {
+         const next = current.next();
+         if (predicate(current.value, current, index++)) {
+            this.deleteNode(current);
+            removed++;
+         }
+         current = next;
+      }
+      return removed;
+   }
+
+   /**
+    * Calls a function for every value in the list, from head to tail.
+    *
+    * @param callback The function to call.
+    *
+    * @timeComplexity `O(n)`
+    */
+   forEach(callback: (value: T, node: ListNode<T>, index: number) => void): void {
+      let index = 0;
+      for (let node of this) {
+         callback(node.value, node, index++);
+      }
+   }
+
+   /**
+    * Creates a new list with the results of calling a function for every
+    * value in the list.
+    *
+    * @param callback The function that maps each value.
+    *
+    * @timeComplexity `O(n)`
+    *
+    * @returns A new linked list with the mapped values.
+    */
+   map<U>(
+      callback: (value: T, node: ListNode<T>, index: number) => U
+   ): LinkedList<U> {
+      const list = new LinkedList<U>(this._config);
+      this.forEach((value, node, index) => {
+         list.append(callback(value, node, index));
+      });
+      return list;
+   }
+
+   /**
+    * Creates a new list with the values that satisfy the predicate.
+    *
+    * @param predicate The function to test each value with.
+    *
+    * @timeComplexity `O(n)`
+    *
+    * @returns A new linked list with the matching values.
+    */
+   filter(
+      predicate: (value: T, node: ListNode<T>, index: number) => boolean
+   ): LinkedList<T> {
+      const list = new LinkedList<T>(this._config);
+      this.forEach((value, node, index) => {
+         if (predicate(value, node, index)) list.append(value);
+      });
+      return list;
+   }
+
    /**
     * Clones the linked list.
     *
@@ -182,7 +506,7 @@ export class LinkedList<T = any> implements Iterable<ListNode<T>> {
     * @returns A new linked list that is a clone of the current list.
     */
    clone(): LinkedList<T> {
-      const cloneList = new LinkedList<T>();
+      const cloneList = new LinkedList<T>(this._config);
       let current = this._head;
       while (current) {
          cloneList.append(current.value);
@@ -194,12 +518,18 @@ export class LinkedList<T = any> implements Iterable<ListNode<T>> {
    /**
     * Removes all nodes from the list.
     *
-    * Note: For efficiency, this doesn't delete nodes one by one.
-    * Avoid reusing the old nodes to avoid unexpected behaviors.
+    * Note: For efficiency, this doesn't dispose nodes one by one. This is
+    * deliberate: the old nodes no longer belong to the list, so every
+    * method that takes a node rejects them, but they keep their links. An
+    * old node can still reach the other old nodes through `next()` and
+    * `prev()`, and keeps them from being garbage collected while it's
+    * referenced. Use `removeWhere(() => true)` to dispose every node.
     *
     * @timeComplexity `O(1)`
     */
    clear(): void {
+      this._owner.release();
+      this._owner = new NodeOwner(this);
       this._head = undefined;
       this._tail = undefined;
       this._size = 0;
@@ -228,9 +558,20 @@ export class LinkedList<T = any> implements Iterable<ListNode<T>> {
     *
     * @timeComplexity `O(n)`
     *
-    * @returns An array containing all the values in the list.
+    * @returns An array containing all the nodes in the list.
     */
    toArray(): ListNode<T>[] {
+      return [...this.nodes()];
+   }
+
+   /**
+    * Converts the values of the linked list to an array.
+    *
+    * @timeComplexity `O(n)`
+    *
+    * @returns An array containing all the values in the list.
+    */
+   toValueArray(): T[] {
       return [...this.values()];
    }
 
@@ -260,20 +601,24 @@ export class LinkedList<T = any> implements Iterable<ListNode<T>> {
     * Creates a linked list from an array of values.
     *
     * @param array The array of values to convert into a linked list.
+    * @param config The configuration of the list. (Optional)
     *
     * @timeComplexity `O(n)`
     *
     * @returns A new linked list containing the values from the array.
     */
-   static fromArray<T>(array: T[]): LinkedList<T> {
-      const list = new LinkedList<T>();
+   static fromArray<T>(
+      array: T[],
+      config?: Partial<LinkedListConfig>
+   ): LinkedList<T> {
+      const list = new LinkedList<T>(config);
       for (const value of array) {
          list.append(value);
       }
       return list;
    }
 
-   *values(): IterableIterator<ListNode<T>> {
+   *nodes(): IterableIterator<ListNode<T>> {
       let current = this.head();
       while (current !== undefined) {
          yield current;
@@ -281,16 +626,341 @@ export class LinkedList<T = any> implements Iterable<ListNode<T>> {
       }
    }
 
+   *values(): IterableIterator<T> {
+      for (let node of this.nodes()) {
+         yield node.value;
+      }
+   }
+
+   *reverseValues(): IterableIterator<T> {
+      let current = this.tail();
+      while (current !== undefined) {
+         yield current.value;
+         current = current.prev();
+      }
+   }
+
    *[Symbol.iterator](): IterableIterator<ListNode<T>> {
-      yield* this.values();
+      yield* this.nodes();
+   }
+
+   /**
+    * Checks the integrity of the list: the prev/next links must be
+    * symmetric, every node must belong to this list, and the size must
+    * match the number of nodes.
+    *
+    * This runs automatically after every mutation if `safeMode` is on.
+    *
+    * @timeComplexity `O(n)`
+    *
+    * @throws Error if the list is corrupted.
+    */
+   validate(): void {
+      if (this._head?.prev() !== undefined) {
+         throw new Error("Invalid list: the head has a previous node.");
+      }
+
+      let count = 0;
+      let prev: ListNode<T> | undefined = undefined;
+      for (let current = this._head; current; current = current.next()) {
+         if (current.prev() !== prev) {
+            throw new Error("Invalid list: prev/next links are not symmetric.");
+         }
+         if (current.isDisposed() || current.list() !== this) {
+            throw new Error("Invalid list: found a node from another list.");
+         }
+         if (++count > this._size) break;
+         prev = current;
+      }
+
+      if (count !== this._size) {
+         throw new Error("Invalid list: size does not match the nodes.");
+      }
+      if (prev !== this._tail) {
+         throw new Error("Invalid list: the tail is not the last node.");
+      }
+   }
+
+   private _createNode(value: T): ListNode<T> {
+      const node = new ListNode(value);
+      node.setOwner(this._owner);
+      return node;
+   }
+
+   private _assertOwned(node: ListNode<T>): void {
+      if (node.isDisposed()) {
+         throw new Error("Node has already been deleted.");
+      }
+      if (node.list() !== this) {
+         throw new Error("Node does not belong to this list.");
+      }
+   }
+
+   private _afterMutation(): void {
+      if (this._config.safeMode) this.validate();
+   }
+}
+
+export class LinkedListCursor<T> {
+   private readonly _list: LinkedList<T>;
+   private _node: ListNode<T> | undefined = undefined;
+
+   /**
+    * The neighbours of the node under the cursor when it was removed, kept
+    * up to date by the list as they're removed too.
+    */
+   private _landingPrev: ListNode<T> | undefined = undefined;
+   private _landingNext: ListNode<T> | undefined = undefined;
+
+   /**
+    * Creates a cursor on a list. Use `LinkedList.cursor()` instead.
+    *
+    * If the node under the cursor is removed, whether through the cursor
+    * or the list, the cursor stays where the node used to be: `node()`
+    * returns undefined, `next()` moves to the node that followed it and
+    * `prev()` to the node that preceded it. If the node is moved to
+    * another list or the list is cleared, the cursor starts over from
+    * the head (or the tail when moving backwards).
+    */
+   constructor(list: LinkedList<T>, node?: ListNode<T>) {
+      this._list = list;
+      if (node !== undefined) this._moveTo(node);
+   }
+
+   /**
+    * Returns the list that the cursor moves around.
+    *
+    * @timeComplexity `O(1)`
+    */
+   list(): LinkedList<T> {
+      return this._list;
+   }
+
+   /**
+    * Returns the node under the cursor.
+    *
+    * @timeComplexity `O(α(n))` amortized
+    *
+    * @returns The node, or undefined if the cursor isn't on a node.
+    */
+   node(): ListNode<T> | undefined {
+      return this._inList(this._node);
+   }
+
+   /**
+    * Returns the value of the node under the cursor.
+    *
+    * @timeComplexity `O(α(n))` amortized
+    *
+    * @returns The value, or undefined if the cursor isn't on a node.
+    */
+   value(): T | undefined {
+      return this.node()?.value;
+   }
+
+   /**
+    * Moves the cursor to the next node, wrapping around to the head after
+    * the tail.
+    *
+    * @timeComplexity `O(α(n))` amortized
+    *
+    * @returns The new node under the cursor, or undefined if the list is
+    * empty.
+    */
+   next(): ListNode<T> | undefined {
+      const node = this.node();
+      const next = node ? node.next() : this._inList(this._landingNext);
+      return this._moveTo(next ?? this._list.head());
+   }
+
+   /**
+    * Moves the cursor to the previous node, wrapping around to the tail
+    * before the head.
+    *
+    * @timeComplexity `O(α(n))` amortized
+    *
+    * @returns The new node under the cursor, or undefined if the list is
+    * empty.
+    */
+   prev(): ListNode<T> | undefined {
+      const node = this.node();
+      const prev = node ? node.prev() : this._inList(this._landingPrev);
+      return this._moveTo(prev ?? this._list.tail());
+   }
+
+   /**
+    * Adds a value before the node under the cursor, so that it is the last
+    * node reached when moving forward around the list. The cursor doesn't
+    * move. If the cursor isn't on a node, the value is added where the
+    * cursor is and the cursor moves onto it.
+    *
+    * @param value The value to add.
+    *
+    * @timeComplexity `O(α(n))` amortized
+    *
+    * @returns The newly added node.
+    */
+   insertHere(value: T): ListNode<T> {
+      const node = this.node();
+      if (node) return this._list.insertBefore(node, value);
+
+      const next = this._inList(this._landingNext);
+      return this._moveTo(
+         next ? this._list.insertBefore(next, value) : this._list.append(value)
+      )!;
+   }
+
+   /**
+    * Removes the node under the cursor. The cursor stays where the node
+    * used to be, so `next()` moves to the node that followed it.
+    *
+    * @timeComplexity `O(α(n))` amortized
+    *
+    * @returns The value of the removed node, or undefined if the cursor
+    * isn't on a node.
+    */
+   removeHere(): T | undefined {
+      const node = this.node();
+      if (!node) return;
+      this._list.deleteNode(node);
+      return node.value;
    }
+
+   /**
+    * Moves the cursor to a specific node.
+    *
+    * @param node The node to move to.
+    *
+    * @timeComplexity `O(α(n))` amortized
+    *
+    * @throws Error if the node isn't in the cursor's list.
+    */
+   rotateTo(node: ListNode<T>): void {
+      if (node.isDisposed()) {
+         throw new Error("Node has already been deleted.");
+      }
+      if (node.list() !== this._list) {
+         throw new Error("Node does not belong to this list.");
+      }
+      this._moveTo(node);
+   }
+
+   /**
+    * Moves the cursor off a node that is being deleted, or follows the
+    * deletion of one of its landing nodes.
+    *
+    * For internal use only.
+    *
+    * @timeComplexity `O(1)`
+    */
+   handleDelete(
+      node: ListNode<T>,
+      prev: ListNode<T> | undefined,
+      next: ListNode<T> | undefined
+   ): void {
+      if (node === this._node) {
+         this._moveTo(undefined);
+         this._setLanding(prev, next);
+         return;
+      }
+      this._setLanding(
+         node === this._landingPrev ? prev : this._landingPrev,
+         node === this._landingNext ? next : this._landingNext
+      );
+   }
+
+   /**
+    * Takes the cursor off the list. The nodes keep track of the cursors
+    * on and around them, so release a cursor that is no longer needed to
+    * let it be garbage-collected. The cursor can still be used, and
+    * starts over from the head (or the tail when moving backwards).
+    *
+    * @timeComplexity `O(1)`
+    */
+   release(): void {
+      this._moveTo(undefined);
+   }
+
+   private _inList(node: ListNode<T> | undefined): ListNode<T> | undefined {
+      return node?.list() === this._list ? node : undefined;
+   }
+
+   private _moveTo(node: ListNode<T> | undefined): ListNode<T> | undefined {
+      this._setLanding(undefined, undefined);
+      this._node?.removeCursor(this);
+      this._node = node;
+      this._node?.addCursor(this);
+      return node;
+   }
+
+   private _setLanding(
+      prev: ListNode<T> | undefined,
+      next: ListNode<T> | undefined
+   ): void {
+      this._landingPrev?.removeCursor(this);
+      this._landingNext?.removeCursor(this);
+      this._landingPrev = prev;
+      this._landingNext = next;
+      this._landingPrev?.addCursor(this);
+      this._landingNext?.addCursor(this);
+   }
+}
+
+/**
+ * Shared by the nodes without cursors, so that deleting them doesn't
+ * allocate.
+ */
+const noCursors: readonly LinkedListCursor<never>[] = [];
+
+/**
+ * Sorts a chain of `size` nodes linked by their next links, and returns
+ * the head of the sorted chain.
+ */
+function mergeSortNodes<T>(
+   head: ListNode<T> | undefined,
+   size: number,
+   comparator: Comparator<T>
+): ListNode<T> | undefined {
+   if (size <= 1) {
+      head?.setNext(undefined);
+      return head;
+   }
+
+   const half = size >> 1;
+   let middle = head!;
+   for (let i = 0; i < half; i++) middle = middle.next()!;
+
+   let left = mergeSortNodes(head, half, comparator);
+   let right = mergeSortNodes(middle, size - half, comparator);
+
+   // Take from the left on ties to keep the sort stable
+   let sortedHead: ListNode<T> | undefined = undefined;
+   let sortedTail: ListNode<T> | undefined = undefined;
+   while (left && right) {
+      let node: ListNode<T>;
+      if (comparator(left.value, right.value) <= 0) {
+         node = left;
+         left = left.next();
+      } else {
+         node = right;
+         right = right.next();
+      }
+      if (sortedTail) sortedTail.setNext(node);
+      else sortedHead = node;
+      sortedTail = node;
+   }
+   sortedTail!.setNext(left ?? right);
+
+   return sortedHead;
 }
 
 export class ListNode<T> {
    public value: T;
    private _next: ListNode<T> | undefined = undefined;
    private _prev: ListNode<T> | undefined = undefined;
+   private _owner: NodeOwner<LinkedList<T>> | undefined = undefined;
    private _isDisposed = false;
+   private _cursors: Set<LinkedListCursor<T>> | undefined = undefined;
 
    constructor(value: T) {
       this.value = value;
@@ -318,6 +988,52 @@ export class ListNode<T> {
       return this._prev;
    }
 
+   /**
+    * Get the cursors that need to know when this node is deleted.
+    *
+    * For internal use only.
+    *
+    * @timeComplexity `O(c)` where `c` is the number of cursors.
+    */
+   cursors(): readonly LinkedListCursor<T>[] {
+      return this._cursors ? [...this._cursors] : noCursors;
+   }
+
+   /**
+    * Add a cursor that needs to know when this node is deleted.
+    *
+    * For internal use only.
+    *
+    * @timeComplexity `O(1)`
+    */
+   addCursor(cursor: LinkedListCursor<T>): void {
+      if (this._cursors === undefined) this._cursors = new Set();
+      this._cursors.add(cursor);
+   }
+
+   /**
+    * Remove a cursor added with `addCursor`.
+    *
+    * For internal use only.
+    *
+    * @timeComplexity `O(1)`
+    */
+   removeCursor(cursor: LinkedListCursor<T>): void {
+      this._cursors?.delete(cursor);
+      if (this._cursors?.size === 0) this._cursors = undefined;
+   }
+
+   /**
+    * Get the list that this node belongs to.
+    *
+    * @timeComplexity `O(α(n))` amortized
+    *
+    * @returns The owning list, or undefined if the node isn't in any list.
+    */
+   list(): LinkedList<T> | undefined {
+      return this._owner?.get();
+   }
+
    /**
     * Check if the node is already disposed.
     *
@@ -351,6 +1067,17 @@ export class ListNode<T> {
       this._prev = prev;
    }
 
+   /**
+    * Change the owner of this node.
+    *
+    * For internal use only.
+    *
+    * @timeComplexity `O(1)`
+    */
+   setOwner(owner: NodeOwner<LinkedList<T>> | undefined): void {
+      this._owner = owner;
+   }
+
    /**
     * Dispose this node.
     *
@@ -362,5 +1089,18 @@ export class ListNode<T> {
       this._isDisposed = true;
       this._prev = undefined;
       this._next = undefined;
+      this._owner = undefined;
+      this._cursors = undefined;
    }
 }
+
+const defaultLinkedListConfig = {
+   /**
+    * Whether to validate the list after every mutation. This is useful
+    * for debugging, but it makes every mutation `O(n)`.
+    * @default false
+    */
+   safeMode: false,
+};
+
+export type LinkedListConfig = typeof defaultLinkedListConfig;
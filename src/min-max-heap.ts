@@ -0,0 +1,321 @@
+import { swap } from "@/utils/common";
+import { Comparator, defaultComparator } from "@/utils/comparator";
+
+export class MinMaxHeap<T = number> {
+   private _heap: T[] = [];
+   private _comparator: Comparator<T> = defaultComparator;
+
+   /**
+    * Creates a new instance of MinMaxHeap.
+    *
+    * @param comparator The comparator function to use. (Optional)
+    */
+   constructor(comparator?: Comparator<T>) {
+      if (comparator) this._comparator = comparator;
+   }
+
+   /**
+    * Returns the number of elements in the heap.
+    *
+    * @timeComplexity `O(1)`
+    */
+   size(): number {
+      return this._heap.length;
+   }
+
+   /**
+    * Returns true if the heap is empty, false otherwise.
+    *
+    * @timeComplexity `O(1)`
+    */
+   isEmpty(): boolean {
+      return this.size() === 0;
+   }
+
+   /**
+    * Returns the lowest element of the heap without removing it.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The lowest element of the heap or undefined if the heap
+    * is empty.
+    */
+   peekMin(): T | undefined {
+      return this._heap[0];
+   }
+
+   /**
+    * Returns the highest element of the heap without removing it.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The highest element of the heap or undefined if the heap
+    * is empty.
+    */
+   peekMax(): T | undefined {
+      if (this.isEmpty()) return;
+      return this._heap[this._getMaxIndex()];
+   }
+
+   /**
+    * Adds elements to the heap.
+    *
+    * @timeComplexity `O(k * log(n))` where `k` is the number of items to add.
+    *
+    * @param items The elements to add to the heap.
+    */
+   push(...items: T[]): void {
+      for (const item of items) {
+         this._heap.push(item);
+         this._bubbleUp(this.size() - 1);
+      }
+   }
+
+   /**
+    * Removes the lowest element from the heap and returns it.
+    *
+    * @timeComplexity `O(log(n))`
+    *
+    * @returns The lowest element of the heap or undefined if the heap
+    * is empty.
+    */
+   popMin(): T | undefined {
+      if (this.isEmpty()) return;
+      return this._removeAt(0);
+   }
+
+   /**
+    * Removes the highest element from the heap and returns it.
+    *
+    * @timeComplexity `O(log(n))`
+    *
+    * @returns The highest element of the heap or undefined if the heap
+    * is empty.
+    */
+   popMax(): T | undefined {
+      if (this.isEmpty()) return;
+      return this._removeAt(this._getMaxIndex());
+   }
+
+   /**
+    * Clears the heap.
+    *
+    * @timeComplexity `O(1)`
+    */
+   clear(): void {
+      this._heap = [];
+   }
+
+   /**
+    * Clones the heap.
+    *
+    * @timeComplexity `O(n)`
+    */
+   clone(): MinMaxHeap<T> {
+      const clonedHeap = new MinMaxHeap<T>(this._comparator);
+      clonedHeap._heap = [...this._heap];
+      return clonedHeap;
+   }
+
+   /**
+    * Converts the heap to an array sorted from lowest to highest.
+    *
+    * @timeComplexity `O(n * log(n))`
+    */
+   toArray(): T[] {
+      return [...this._heap].sort(this._comparator);
+   }
+
+   /**
+    * Returns an iterator over the elements of the heap in no
+    * particular order.
+    *
+    * @timeComplexity `O(n)`
+    */
+   *values(): IterableIterator<T> {
+      yield* this._heap;
+   }
+
+   *[Symbol.iterator](): IterableIterator<T> {
+      yield* this.values();
+   }
+
+   /**
+    * Builds a heap from the given array.
+    *
+    * @param array The array to build the heap from.
+    * @param comparator The comparator function to use. (Optional)
+    *
+    * @timeComplexity `O(n)`
+    *
+    * @returns The heap built from the given array.
+    */
+   static fromArray<T>(
+      array: T[],
+      comparator?: Comparator<T>
+   ): MinMaxHeap<T> {
+      const heap = new MinMaxHeap<T>(comparator);
+      heap._heap = [...array];
+      for (let i = heap._getParentIndex(heap.size() - 1); i >= 0; i--) {
+         heap._trickleDown(i);
+      }
+      return heap;
+   }
+
+   /**
+    * Returns the index of the highest element, which is one of the
+    * root's children (or the root itself if it has none).
+    */
+   private _getMaxIndex(): number {
+      if (this.size() <= 2) return this.size() - 1;
+      return this._comparator(this._heap[1], this._heap[2]) >= 0 ? 1 : 2;
+   }
+
+   /**
+    * Removes the element at the given index and fills the gap with the
+    * last element of the heap.
+    *
+    * @param index The index of the element to remove.
+    *
+    * @returns The removed element.
+    */
+   private _removeAt(index: number): T {
+      const removedValue = this._heap[index];
+      const last = this._heap.pop() as T;
+      if (index < this.size()) {
+         this._heap[index] = last;
+         this._trickleDown(index);
+      }
+      return removedValue;
+   }
+
+   /**
+    * Moves the element at the given index up the heap to its correct
+    * position.
+    *
+    * @param index The index of the element to move up.
+    */
+   private _bubbleUp(index: number): void {
+      if (index === 0) return;
+
+      const parentIndex = this._getParentIndex(index);
+      const order = this._getOrder(index);
+      if (
+         order * this._comparator(this._heap[index], this._heap[parentIndex]) >
+         0
+      ) {
+         swap(this._heap, index, parentIndex);
+         this._bubbleUpLevels(parentIndex, -order);
+      } else {
+         this._bubbleUpLevels(index, order);
+      }
+   }
+
+   /**
+    * Moves the element at the given index up through its grandparents,
+    * which are all on the same kind of level.
+    *
+    * @param index The index of the element to move up.
+    * @param order `1` if the element is on a min level, `-1` otherwise.
+    */
+   private _bubbleUpLevels(index: number, order: number): void {
+      let currentIndex = index;
+      while (currentIndex > 2) {
+         const grandparentIndex = this._getParentIndex(
+            this._getParentIndex(currentIndex)
+         );
+         if (
+            order *
+               this._comparator(
+                  this._heap[currentIndex],
+                  this._heap[grandparentIndex]
+               ) >=
+            0
+         ) {
+            break;
+         }
+
+         swap(this._heap, currentIndex, grandparentIndex);
+         currentIndex = grandparentIndex;
+      }
+   }
+
+   /**
+    * Moves the element at the given index down the heap to its correct
+    * position.
+    *
+    * @param index The index of the element to move down.
+    */
+   private _trickleDown(index: number): void {
+      const order = this._getOrder(index);
+      let currentIndex = index;
+      while (this._getLeftChildIndex(currentIndex) < this.size()) {
+         // Find the best among the children and grandchildren
+         const leftChildIndex = this._getLeftChildIndex(currentIndex);
+         let bestIndex = leftChildIndex;
+         const candidates = [
+            leftChildIndex + 1,
+            this._getLeftChildIndex(leftChildIndex),
+            this._getLeftChildIndex(leftChildIndex) + 1,
+            this._getLeftChildIndex(leftChildIndex + 1),
+            this._getLeftChildIndex(leftChildIndex + 1) + 1,
+         ];
+         for (const candidateIndex of candidates) {
+            if (
+               candidateIndex < this.size() &&
+               order *
+                  this._comparator(
+                     this._heap[candidateIndex],
+                     this._heap[bestIndex]
+                  ) <
+                  0
+            ) {
+               bestIndex = candidateIndex;
+            }
+         }
+
+         if (
+            order *
+               this._comparator(
+                  this._heap[bestIndex],
+                  this._heap[currentIndex]
+               ) >=
+            0
+         ) {
+            break;
+         }
+
+         swap(this._heap, bestIndex, currentIndex);
+         if (bestIndex <= leftChildIndex + 1) break;
+
+         // The best element was a grandchild, so the element we moved down
+         // might need to swap places with its new parent.
+         const parentIndex = this._getParentIndex(bestIndex);
+         if (
+            order *
+               this._comparator(this._heap[bestIndex], this._heap[parentIndex]) >
+            0
+         ) {
+            swap(this._heap, bestIndex, parentIndex);
+         }
+         currentIndex = bestIndex;
+      }
+   }
+
+   /**
+    * Returns `1` if the given index is on a min level, `-1` if it's on a
+    * max level.
+    */
+   private _getOrder(index: number): number {
+      const level = 31 - Math.clz32(index + 1);
+      return level % 2 === 0 ? 1 : -1;
+   }
+
+   private _getParentIndex(index: number): number {
+      return (index - 1) >> 1;
+   }
+
+   private _getLeftChildIndex(index: number): number {
+      return (index << 1) + 1;
+   }
+}
@@ -0,0 +1,170 @@
+import { Deque } from "./deque";
+import { Comparator, defaultComparator } from "./utils/comparator";
+
+export class MonotonicQueue<T = number> {
+   private _window = new Deque<MonotonicQueueEntry<T>>();
+   private _minCandidates = new Deque<MonotonicQueueEntry<T>>();
+   private _maxCandidates = new Deque<MonotonicQueueEntry<T>>();
+   private _comparator: Comparator<T> = defaultComparator;
+   private _pushCount: number = 0;
+
+   /**
+    * Creates a new instance of MonotonicQueue.
+    *
+    * @param comparator The comparator function to use. (Optional)
+    */
+   constructor(comparator?: Comparator<T>) {
+      if (comparator) this._comparator = comparator;
+   }
+
+   /**
+    * Adds a value to the end of the window.
+    *
+    * @param value The value to add.
+    * @param key The index or timestamp of the value, used by
+    * `expireBefore`. Keys must be non-decreasing. Defaults to the number
+    * of values pushed before this one.
+    *
+    * @timeComplexity `O(1)` amortized
+    */
+   push(value: T, key: number = this._pushCount): void {
+      const last = this._window.back();
+      if (last !== undefined && key < last.key) {
+         throw new RangeError("Keys must be non-decreasing.");
+      }
+
+      const entry = { value, key };
+      this._pushCount++;
+      this._window.enqueue(entry);
+
+      // Values that are worse than the new one can never be the min/max
+      // again, since the new value will outlive them.
+      while (
+         !this._minCandidates.isEmpty() &&
+         this._comparator(this._minCandidates.back()!.value, value) >= 0
+      ) {
+         this._minCandidates.dequeueBack();
+      }
+      this._minCandidates.enqueue(entry);
+
+      while (
+         !this._maxCandidates.isEmpty() &&
+         this._comparator(this._maxCandidates.back()!.value, value) <= 0
+      ) {
+         this._maxCandidates.dequeueBack();
+      }
+      this._maxCandidates.enqueue(entry);
+   }
+
+   /**
+    * Removes and returns the oldest value of the window.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The oldest value or undefined if the window is empty.
+    */
+   shift(): T | undefined {
+      const entry = this._window.dequeue();
+      if (entry === undefined) return;
+
+      if (this._minCandidates.front() === entry) {
+         this._minCandidates.dequeue();
+      }
+      if (this._maxCandidates.front() === entry) {
+         this._maxCandidates.dequeue();
+      }
+
+      return entry.value;
+   }
+
+   /**
+    * Removes all values whose key is less than the given key.
+    *
+    * @param key The index or timestamp where the window starts.
+    *
+    * @timeComplexity `O(k)` where `k` is the number of removed values.
+    *
+    * @returns The number of removed values.
+    */
+   expireBefore(key: number): number {
+      let removed = 0;
+      while (!this._window.isEmpty() && this._window.front()!.key < key) {
+         this.shift();
+         removed++;
+      }
+      return removed;
+   }
+
+   /**
+    * Returns the lowest value of the window.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The lowest value or undefined if the window is empty.
+    */
+   min(): T | undefined {
+      return this._minCandidates.front()?.value;
+   }
+
+   /**
+    * Returns the highest value of the window.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The highest value or undefined if the window is empty.
+    */
+   max(): T | undefined {
+      return this._maxCandidates.front()?.value;
+   }
+
+   /**
+    * Returns the number of values in the window.
+    *
+    * @timeComplexity `O(1)`
+    */
+   size(): number {
+      return this._window.size();
+   }
+
+   /**
+    * Returns true if the window is empty, false otherwise.
+    *
+    * @timeComplexity `O(1)`
+    */
+   isEmpty(): boolean {
+      return this._window.isEmpty();
+   }
+
+   /**
+    * Removes all values from the window. Keys start from zero again.
+    *
+    * @timeComplexity `O(1)`
+    */
+   clear(): void {
+      this._window.clear();
+      this._minCandidates.clear();
+      this._maxCandidates.clear();
+      this._pushCount = 0;
+   }
+
+   /**
+    * Converts the window to an array, from oldest to newest.
+    *
+    * @timeComplexity `O(n)`
+    */
+   toArray(): T[] {
+      return [...this.values()];
+   }
+
+   *values(): IterableIterator<T> {
+      for (const entry of this._window) {
+         yield entry.value;
+      }
+   }
+
+   *[Symbol.iterator](): IterableIterator<T> {
+      yield* this.values();
+   }
+}
+
+type MonotonicQueueEntry<T> = { value: T; key: number };
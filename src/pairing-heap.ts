@@ -0,0 +1,415 @@
+import { Comparator, defaultComparator } from "@/utils/comparator";
+import { PriorityQueue } from "@/utils/priority-queue";
+import { NodeOwner } from "@/utils/node-owner";
+
+export class PairingHeap<T = number> implements PriorityQueue<T> {
+   private _root: PairingHeapNode<T> | undefined = undefined;
+   private _size: number = 0;
+   private _comparator: Comparator<T> = defaultComparator;
+   private _owner = new NodeOwner<PairingHeap<T>>(this);
+
+   /**
+    * Creates a new instance of PairingHeap.
+    *
+    * @param comparator The comparator function to use. (Optional)
+    */
+   constructor(comparator?: Comparator<T>) {
+      if (comparator) this._comparator = comparator;
+   }
+
+   /**
+    * Returns the number of elements in the heap.
+    *
+    * @timeComplexity `O(1)`
+    */
+   size(): number {
+      return this._size;
+   }
+
+   /**
+    * Returns true if the heap is empty, false otherwise.
+    *
+    * @timeComplexity `O(1)`
+    */
+   isEmpty(): boolean {
+      return this._size === 0;
+   }
+
+   /**
+    * Returns the top element of the heap without removing it.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The top element of the heap or undefined if
+    * the heap is empty.
+    */
+   peek(): T | undefined {
+      return this._root?.value;
+   }
+
+   /**
+    * Adds elements to the heap.
+    *
+    * @timeComplexity `O(k)` where `k` is the number of items to add.
+    *
+    * @param items The elements to add to the heap.
+    */
+   push(...items: T[]): void {
+      for (const item of items) {
+         this.insert(item);
+      }
+   }
+
+   /**
+    * Adds an element to the heap.
+    *
+    * @param item The element to add.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The node of the element, which can be used as a handle
+    * for `update` and `remove`.
+    */
+   insert(item: T): PairingHeapNode<T> {
+      const node = new PairingHeapNode(item);
+      node.setOwner(this._owner);
+      this._root = this._link(this._root, node);
+      this._size++;
+      return node;
+   }
+
+   /**
+    * Removes the top element from the heap and returns it.
+    *
+    * @timeComplexity `O(log(n))` amortized
+    *
+    * @returns The top element of the heap or undefined if
+    * the heap is empty.
+    */
+   pop(): T | undefined {
+      const root = this._root;
+      if (root === undefined) return;
+
+      this._root = this._mergePairs(root.child);
+      root.dispose();
+      this._size--;
+      return root.value;
+   }
+
+   /**
+    * Changes the value of a node and moves it to its correct position.
+    *
+    * @param node The node to update.
+    * @param value The new value of the node.
+    *
+    * @timeComplexity `O(1)` amortized if the new value has a higher
+    * priority, otherwise `O(log(n))` amortized.
+    *
+    * @throws Error if the node belongs to another heap, or was left over
+    * from `clear`.
+    *
+    * @returns True if the node was updated, false if it's no longer
+    * in the heap.
+    */
+   update(node: PairingHeapNode<T>, value: T): boolean {
+      if (node.isDisposed()) return false;
+      this._assertOwned(node);
+
+      if (this._comparator(value, node.value) <= 0) {
+         node.value = value;
+         if (node !== this._root) {
+            this._cut(node);
+            this._root = this._link(this._root, node);
+         }
+      } else {
+         this._detach(node);
+         node.value = value;
+         this._root = this._link(this._root, node);
+      }
+
+      return true;
+   }
+
+   /**
+    * Removes a node from the heap.
+    *
+    * @param node The node to remove.
+    *
+    * @timeComplexity `O(log(n))` amortized
+    *
+    * @throws Error if the node belongs to another heap, or was left over
+    * from `clear`.
+    *
+    * @returns True if the node was removed, false if it's no longer
+    * in the heap.
+    */
+   remove(node: PairingHeapNode<T>): boolean {
+      if (node.isDisposed()) return false;
+      this._assertOwned(node);
+
+      this._detach(node);
+      node.dispose();
+      this._size--;
+      return true;
+   }
+
+   /**
+    * Moves all elements of another heap into this heap. The other heap
+    * will be empty afterwards, and its nodes will belong to this heap.
+    *
+    * Both heaps are expected to use the same comparator.
+    *
+    * @param other The heap to meld into this heap.
+    *
+    * @timeComplexity `O(1)`
+    */
+   meld(other: PairingHeap<T>): void {
+      if (other === this) return;
+
+      this._root = this._link(this._root, other._root);
+      this._size += other._size;
+      other._owner.forwardTo(this._owner);
+      other._owner = new NodeOwner(other);
+      other._root = undefined;
+      other._size = 0;
+   }
+
+   /**
+    * Clears the heap.
+    *
+    * Note: For efficiency, this doesn't dispose nodes one by one. The old
+    * nodes no longer belong to the heap, so `update` and `remove` reject
+    * them.
+    *
+    * @timeComplexity `O(1)`
+    */
+   clear(): void {
+      this._owner.release();
+      this._owner = new NodeOwner(this);
+      this._root = undefined;
+      this._size = 0;
+   }
+
+   /**
+    * Clones the heap. The nodes of the clone are new nodes.
+    *
+    * @timeComplexity `O(n)`
+    */
+   clone(): PairingHeap<T> {
+      return PairingHeap.fromArray([...this.values()], this._comparator);
+   }
+
+   /**
+    * Converts the heap to a sorted array.
+    *
+    * @timeComplexity `O(n * log(n))`
+    */
+   toArray(): T[] {
+      return [...this.values()].sort(this._comparator);
+   }
+
+   /**
+    * Returns an iterator over the elements of the heap in no
+    * particular order.
+    *
+    * @timeComplexity `O(n)`
+    */
+   *values(): IterableIterator<T> {
+      const stack: PairingHeapNode<T>[] = [];
+      if (this._root) stack.push(this._root);
+      while (stack.length > 0) {
+         const node = stack.pop()!;
+         yield node.value;
+         if (node.sibling) stack.push(node.sibling);
+         if (node.child) stack.push(node.child);
+      }
+   }
+
+   *[Symbol.iterator](): IterableIterator<T> {
+      yield* this.values();
+   }
+
+   /**
+    * Builds a heap from the given array.
+    *
+    * @param array The array to build the heap from.
+    * @param comparator The comparator function to use. (Optional)
+    *
+    * @timeComplexity `O(n)`
+    *
+    * @returns The heap built from the given array.
+    */
+   static fromArray<T>(
+      array: T[],
+      comparator?: Comparator<T>
+   ): PairingHeap<T> {
+      const heap = new PairingHeap<T>(comparator);
+      for (const item of array) {
+         heap.insert(item);
+      }
+      return heap;
+   }
+
+   private _assertOwned(node: PairingHeapNode<T>): void {
+      if (node.heap() !== this) {
+         throw new Error("Node does not belong to this heap.");
+      }
+   }
+
+   /**
+    * Links two trees by making the root with the lower priority the
+    * first child of the other one.
+    *
+    * @returns The root of the linked tree.
+    */
+   private _link(
+      a: PairingHeapNode<T> | undefined,
+      b: PairingHeapNode<T> | undefined
+   ): PairingHeapNode<T> | undefined {
+      if (a === undefined) return b;
+      if (b === undefined) return a;
+
+      if (this._comparator(b.value, a.value) < 0) {
+         [a, b] = [b, a];
+      }
+
+      b.prev = a;
+      b.sibling = a.child;
+      if (a.child) a.child.prev = b;
+      a.child = b;
+      a.prev = undefined;
+      a.sibling = undefined;
+      return a;
+   }
+
+   /**
+    * Merges a list of siblings into a single tree using the two-pass
+    * pairing method.
+    *
+    * @param first The first node of the sibling list.
+    *
+    * @returns The root of the merged tree.
+    */
+   private _mergePairs(
+      first: PairingHeapNode<T> | undefined
+   ): PairingHeapNode<T> | undefined {
+      // First pass: link pairs from left to right
+      const pairs: PairingHeapNode<T>[] = [];
+      let current = first;
+      while (current !== undefined) {
+         const a = current;
+         const b = a.sibling;
+         current = b?.sibling;
+         a.prev = a.sibling = undefined;
+         if (b) b.prev = b.sibling = undefined;
+         pairs.push(this._link(a, b)!);
+      }
+
+      // Second pass: link the pairs from right to left
+      let root: PairingHeapNode<T> | undefined = undefined;
+      for (let i = pairs.length - 1; i >= 0; i--) {
+         root = this._link(pairs[i], root);
+      }
+
+      return root;
+   }
+
+   /**
+    * Cuts a node (along with its subtree) from its parent.
+    *
+    * @param node The node to cut.
+    */
+   private _cut(node: PairingHeapNode<T>): void {
+      const prev = node.prev;
+      if (prev === undefined) return;
+
+      if (prev.child === node) {
+         prev.child = node.sibling;
+      } else {
+         prev.sibling = node.sibling;
+      }
+      if (node.sibling) node.sibling.prev = prev;
+      node.prev = undefined;
+      node.sibling = undefined;
+   }
+
+   /**
+    * Takes a node out of the heap and puts its children back, leaving the
+    * node without any links.
+    *
+    * @param node The node to detach.
+    */
+   private _detach(node: PairingHeapNode<T>): void {
+      if (node === this._root) {
+         this._root = this._mergePairs(node.child);
+      } else {
+         this._cut(node);
+         this._root = this._link(this._root, this._mergePairs(node.child));
+      }
+      node.child = undefined;
+   }
+}
+
+/**
+ * A node of a PairingHeap. Its links are managed by the heap, so they
+ * shouldn't be modified directly.
+ */
+export class PairingHeapNode<T> {
+   public value: T;
+   public child: PairingHeapNode<T> | undefined = undefined;
+   public sibling: PairingHeapNode<T> | undefined = undefined;
+   /** The previous sibling, or the parent if this is the first child. */
+   public prev: PairingHeapNode<T> | undefined = undefined;
+   private _isDisposed = false;
+   private _owner: NodeOwner<PairingHeap<T>> | undefined = undefined;
+
+   constructor(value: T) {
+      this.value = value;
+   }
+
+   /**
+    * Get the heap that this node belongs to.
+    *
+    * @timeComplexity `O(α(n))` amortized
+    *
+    * @returns The owning heap, or undefined if the node isn't in any heap.
+    */
+   heap(): PairingHeap<T> | undefined {
+      return this._owner?.get();
+   }
+
+   /**
+    * Check if the node is no longer in a heap.
+    *
+    * @timeComplexity `O(1)`
+    */
+   isDisposed(): boolean {
+      return this._isDisposed;
+   }
+
+   /**
+    * Change the owner of this node.
+    *
+    * For internal use only.
+    *
+    * @timeComplexity `O(1)`
+    */
+   setOwner(owner: NodeOwner<PairingHeap<T>> | undefined): void {
+      this._owner = owner;
+   }
+
+   /**
+    * Dispose this node.
+    *
+    * For internal use only.
+    *
+    * @timeComplexity `O(1)`
+    */
+   dispose(): void {
+      this._isDisposed = true;
+      this._owner = undefined;
+      this.child = undefined;
+      this.sibling = undefined;
+      this.prev = undefined;
+   }
+}
@@ -0,0 +1,136 @@
+import { Heap } from "./heap";
+import { Comparator, defaultComparator } from "./utils/comparator";
+
+export class PrioritizedQueue<T = any, P = number> {
+   private _heap: Heap<PrioritizedQueueEntry<T, P>>;
+   private _comparator: Comparator<P> = defaultComparator;
+   private _enqueueCount: number = 0;
+
+   /**
+    * Creates a new instance of PrioritizedQueue.
+    *
+    * Values with lower priorities (according to the comparator) are
+    * dequeued first. Values with the same priority are dequeued in the
+    * order they were enqueued.
+    *
+    * @param comparator The comparator function for the priorities.
+    * (Optional)
+    */
+   constructor(comparator?: Comparator<P>) {
+      if (comparator) this._comparator = comparator;
+      this._heap = new Heap((a, b) => {
+         return this._comparator(a.priority, b.priority) || a.order - b.order;
+      });
+   }
+
+   /**
+    * Adds a value to the queue with the given priority.
+    *
+    * @param value The value to add to the queue.
+    * @param priority The priority of the value.
+    *
+    * @timeComplexity `O(log(n))`
+    */
+   enqueue(value: T, priority: P): void {
+      this._heap.push({ value, priority, order: this._enqueueCount++ });
+   }
+
+   /**
+    * Removes and returns the value with the highest priority.
+    *
+    * @timeComplexity `O(log(n))`
+    *
+    * @returns The value with the highest priority or undefined if the
+    * queue is empty.
+    */
+   dequeue(): T | undefined {
+      return this._heap.pop()?.value;
+   }
+
+   /**
+    * Returns the value with the highest priority without removing it.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The value with the highest priority or undefined if the
+    * queue is empty.
+    */
+   front(): T | undefined {
+      return this._heap.peek()?.value;
+   }
+
+   /**
+    * Returns the priority of the value at the front of the queue.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns The priority or undefined if the queue is empty.
+    */
+   frontPriority(): P | undefined {
+      return this._heap.peek()?.priority;
+   }
+
+   /**
+    * Returns the number of elements in the queue.
+    *
+    * @timeComplexity `O(1)`
+    */
+   size(): number {
+      return this._heap.size();
+   }
+
+   /**
+    * Returns true if the queue is empty, false otherwise.
+    *
+    * @timeComplexity `O(1)`
+    */
+   isEmpty(): boolean {
+      return this._heap.isEmpty();
+   }
+
+   /**
+    * Removes all elements from the queue.
+    *
+    * @timeComplexity `O(1)`
+    */
+   clear(): void {
+      this._heap.clear();
+   }
+
+   /**
+    * Creates a copy of the queue.
+    *
+    * @timeComplexity `O(n)`
+    */
+   clone(): PrioritizedQueue<T, P> {
+      const queue = new PrioritizedQueue<T, P>(this._comparator);
+      queue._heap.meld(this._heap.clone());
+      queue._enqueueCount = this._enqueueCount;
+      return queue;
+   }
+
+   /**
+    * Converts the queue to an array, in the order the values would
+    * be dequeued.
+    *
+    * @timeComplexity `O(n * log(n))`
+    */
+   toArray(): T[] {
+      return this._heap.toArray().map((entry) => entry.value);
+   }
+
+   /**
+    * Iterates through the values in the order they would be dequeued.
+    *
+    * @timeComplexity `O(n * log(n))`
+    */
+   *values(): IterableIterator<T> {
+      yield* this.toArray();
+   }
+
+   *[Symbol.iterator](): IterableIterator<T> {
+      yield* this.values();
+   }
+}
+
+type PrioritizedQueueEntry<T, P> = { value: T; priority: P; order: number };
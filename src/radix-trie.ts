@@ -0,0 +1,302 @@
+export class RadixTrieNode {
+   /**
+    * The children of this node, keyed by the first character of their
+    * labels.
+    */
+   public children: Map<string, RadixTrieNode>;
+   public isEndOfWord: boolean;
+
+   /**
+    * The segment of characters on the edge leading to this node.
+    */
+   public label: string;
+
+   constructor(label: string) {
+      this.label = label;
+      this.children = new Map();
+      this.isEndOfWord = false;
+   }
+
+   /**
+    * Splits the label of this node at the given position. This node keeps
+    * the first part, and a new child takes the rest, along with this
+    * node's children and word.
+    *
+    * @param index The position to split the label at.
+    */
+   split(index: number): void {
+      const child = new RadixTrieNode(this.label.slice(index));
+      child.children = this.children;
+      child.isEndOfWord = this.isEndOfWord;
+
+      this.label = this.label.slice(0, index);
+      this.children = new Map([[child.label[0], child]]);
+      this.isEndOfWord = false;
+   }
+
+   /**
+    * Merges this node with its only child.
+    */
+   mergeWithChild(): void {
+      const [child] = this.children.values();
+      this.label += child.label;
+      this.children = child.children;
+      this.isEndOfWord = child.isEndOfWord;
+   }
+}
+
+export class RadixTrie {
+   private _root = new RadixTrieNode("");
+
+   /**
+    * Inserts a word into the trie.
+    *
+    * @param word The word to insert.
+    *
+    * @timeComplexity `O(m)` where `m` is the word's length.
+    */
+   insert(word: string): void {
+      let current = this._root;
+      let rest = word;
+      while (rest.length > 0) {
+         const child = current.children.get(rest[0]);
+         if (!child) {
+            const leaf = new RadixTrieNode(rest);
+            leaf.isEndOfWord = true;
+            current.children.set(rest[0], leaf);
+            return;
+         }
+
+         const length = commonPrefixLength(child.label, rest);
+         if (length < child.label.length) child.split(length);
+         current = child;
+         rest = rest.slice(length);
+      }
+      current.isEndOfWord = true;
+   }
+
+   /**
+    * Searches for a word in the trie.
+    *
+    * @param word The word to search for.
+    *
+    * @timeComplexity `O(m)` where `m` is the word's length.
+    *
+    * @returns True if the word is found, otherwise false.
+    */
+   search(word: string): boolean {
+      const path = this._findPath(word);
+      return path !== undefined && path[path.length - 1].isEndOfWord;
+   }
+
+   /**
+    * Checks if any word in the trie starts with the given prefix.
+    *
+    * @param prefix The prefix to check.
+    *
+    * @timeComplexity `O(m)` where `m` is the prefix's length.
+    *
+    * @returns True if the prefix is found, otherwise false.
+    */
+   startsWith(prefix: string): boolean {
+      return this._findPrefix(prefix) !== undefined;
+   }
+
+   /**
+    * Deletes a word from the trie. Edges that are left with a single
+    * child are merged back together.
+    *
+    * @param word The word to delete.
+    *
+    * @timeComplexity `O(m)` where `m` is the word's length.
+    *
+    * @returns True if the word was successfully deleted, false if the
+    * word was not found.
+    */
+   delete(word: string): boolean {
+      const path = this._findPath(word);
+      if (!path) return false;
+
+      const node = path[path.length - 1];
+      if (!node.isEndOfWord) return false;
+      node.isEndOfWord = false;
+      if (node === this._root) return true;
+
+      const parent = path[path.length - 2];
+      if (node.children.size === 0) {
+         parent.children.delete(node.label[0]);
+         if (
+            parent !== this._root &&
+            !parent.isEndOfWord &&
+            parent.children.size === 1
+         ) {
+            parent.mergeWithChild();
+         }
+      } else if (node.children.size === 1) {
+         node.mergeWithChild();
+      }
+
+      return true;
+   }
+
+   /**
+    * Counts the nodes of the trie, including the root. Each node holds a
+    * whole segment, so this is usually far less than the number of
+    * characters in the words.
+    *
+    * @timeComplexity `O(k)` where `k` is the number of nodes.
+    */
+   nodeCount(): number {
+      let count = 0;
+      const stack = [this._root];
+      while (stack.length > 0) {
+         const node = stack.pop()!;
+         count++;
+         for (const child of node.children.values()) stack.push(child);
+      }
+      return count;
+   }
+
+   /**
+    * Returns all words in the trie.
+    *
+    * @timeComplexity `O(n * k)` where `n` is the number of words and
+    * `k` is the average length of each word.
+    *
+    * @returns An array of all words stored in the trie.
+    */
+   getAllWords(): string[] {
+      return this._collectWords(this._root, "");
+   }
+
+   /**
+    * Checks if the trie is empty.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns True if the trie is empty, otherwise false.
+    */
+   isEmpty(): boolean {
+      return this._root.children.size === 0 && !this._root.isEndOfWord;
+   }
+
+   /**
+    * Clears all words from the trie.
+    *
+    * @timeComplexity `O(1)`
+    */
+   clear(): void {
+      this._root = new RadixTrieNode("");
+   }
+
+   /**
+    * Finds the longest prefix of the given word that exists in the trie.
+    *
+    * @param word The word to find the longest prefix for.
+    *
+    * @timeComplexity `O(m)` where `m` is the word's length.
+    *
+    * @returns The longest prefix found in the trie.
+    */
+   longestPrefixMatch(word: string): string {
+      let current = this._root;
+      let length = 0;
+      let longestLength = 0;
+
+      while (length < word.length) {
+         const child = current.children.get(word[length]);
+         if (!child || !word.startsWith(child.label, length)) break;
+
+         current = child;
+         length += child.label.length;
+         if (child.isEndOfWord) {
+            longestLength = length;
+         }
+      }
+
+      return word.slice(0, longestLength);
+   }
+
+   /**
+    * Returns a list of all words in the trie with the given prefix.
+    *
+    * @param prefix The prefix to autocomplete.
+    *
+    * @timeComplexity `O(p + k)` where `p` is the prefix's length and
+    * `k` is the total number of characters in the words that match the prefix.
+    *
+    * @returns An array of words that start with the given prefix.
+    */
+   autocomplete(prefix: string): string[] {
+      const match = this._findPrefix(prefix);
+      if (!match) return [];
+
+      const [node, word] = match;
+      return this._collectWords(node, word);
+   }
+
+   /**
+    * Returns the nodes along the path of a word, if the word ends exactly
+    * at a node.
+    */
+   private _findPath(word: string): RadixTrieNode[] | undefined {
+      const path = [this._root];
+      let length = 0;
+      while (length < word.length) {
+         const child = path[path.length - 1].children.get(word[length]);
+         if (!child || !word.startsWith(child.label, length)) return;
+
+         path.push(child);
+         length += child.label.length;
+      }
+      return path;
+   }
+
+   /**
+    * Returns the first node whose path starts with the prefix, along with
+    * that path. The prefix may end in the middle of the node's label.
+    */
+   private _findPrefix(prefix: string): [RadixTrieNode, string] | undefined {
+      let current = this._root;
+      let path = "";
+      while (path.length < prefix.length) {
+         const child = current.children.get(prefix[path.length]);
+         if (!child) return;
+
+         const rest = prefix.slice(path.length);
+         if (!rest.startsWith(child.label) && !child.label.startsWith(rest)) {
+            return;
+         }
+
+         current = child;
+         path += child.label;
+      }
+      return [current, path];
+   }
+
+   private _collectWords(
+      node: RadixTrieNode,
+      prefix: string,
+      words: string[] = []
+   ): string[] {
+      if (node.isEndOfWord) {
+         words.push(prefix);
+      }
+
+      for (const childNode of node.children.values()) {
+         this._collectWords(childNode, prefix + childNode.label, words);
+      }
+
+      return words;
+   }
+}
+
+/**
+ * Returns the number of leading characters that two strings share.
+ */
+function commonPrefixLength(a: string, b: string): number {
+   const length = Math.min(a.length, b.length);
+   let i = 0;
+   while (i < length && a[i] === b[i]) i++;
+   return i;
+}
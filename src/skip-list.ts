@@ -0,0 +1,418 @@
+import { Comparator, defaultComparator } from "./utils/comparator";
+import { createRandom } from "./utils/common";
+
+export class SkipList<K = any, V = any> {
+   private readonly _config: SkipListConfig;
+   private readonly _random: () => number;
+   private _comparator: Comparator<K> = defaultComparator;
+   private _head: SkipListNode<K, V>;
+   private _level: number = 1;
+   private _size: number = 0;
+
+   /**
+    * Creates a new instance of SkipList.
+    *
+    * @param comparator The comparator function for the keys. (Optional)
+    * @param config The configuration of the skip list. (Optional)
+    */
+   constructor(comparator?: Comparator<K>, config: Partial<SkipListConfig> = {}) {
+      if (comparator) this._comparator = comparator;
+      this._config = { ...defaultSkipListConfig, ...config };
+      if (!(this._config.maxLevel >= 1)) {
+         throw new RangeError("Max level must be at least 1.");
+      }
+      if (!(this._config.probability > 0 && this._config.probability < 1)) {
+         throw new RangeError("Probability must be between 0 and 1.");
+      }
+
+      const { seed } = this._config;
+      this._random = seed === undefined ? Math.random : createRandom(seed);
+      this._head = this._createHead();
+   }
+
+   /**
+    * Adds an entry with the given key and value. If the key already
+    * exists, its value is replaced.
+    *
+    * @param key The key of the entry.
+    * @param value The value of the entry.
+    *
+    * @timeComplexity `O(log(n))` on average
+    */
+   set(key: K, value: V): void {
+      const update: SkipListNode<K, V>[] = new Array(this._config.maxLevel);
+      const rank: number[] = new Array(this._config.maxLevel);
+
+      let current = this._head;
+      for (let i = this._level - 1; i >= 0; i--) {
+         rank[i] = i === this._level - 1 ? 0 : rank[i + 1];
+         while (
+            current.forward[i] &&
+            this._comparator(current.forward[i]!.key, key) < 0
+         ) {
+            rank[i] += current.span[i];
+            current = current.forward[i]!;
+         }
+         update[i] = current;
+      }
+
+      const next = current.forward[0];
+      if (next && this._comparator(next.key, key) === 0) {
+         next.value = value;
+         return;
+      }
+
+      const level = this._randomLevel();
+      if (level > this._level) {
+         for (let i = this._level; i < level; i++) {
+            rank[i] = 0;
+            update[i] = this._head;
+            this._head.span[i] = this._size;
+         }
+         this._level = level;
+      }
+
+      // Link the node at each of its levels and split the spans around it
+      const node = new SkipListNode(key, value, level);
+      for (let i = 0; i < level; i++) {
+         node.forward[i] = update[i].forward[i];
+         update[i].forward[i] = node;
+         node.span[i] = update[i].span[i] - (rank[0] - rank[i]);
+         update[i].span[i] = rank[0] - rank[i] + 1;
+      }
+      for (let i = level; i < this._level; i++) {
+         update[i].span[i]++;
+      }
+
+      this._size++;
+   }
+
+   /**
+    * Returns the value of the entry with the given key.
+    *
+    * @param key The key of the entry.
+    *
+    * @timeComplexity `O(log(n))` on average
+    *
+    * @returns The value or undefined if the key doesn't exist.
+    */
+   get(key: K): V | undefined {
+      return this._findNode(key)?.value;
+   }
+
+   /**
+    * Returns true if an entry with the given key exists, false otherwise.
+    *
+    * @param key The key of the entry.
+    *
+    * @timeComplexity `O(log(n))` on average
+    */
+   has(key: K): boolean {
+      return this._findNode(key) !== undefined;
+   }
+
+   /**
+    * Removes the entry with the given key.
+    *
+    * @param key The key of the entry.
+    *
+    * @timeComplexity `O(log(n))` on average
+    *
+    * @returns True if an entry was removed, false otherwise.
+    */
+   delete(key: K): boolean {
+      const update: SkipListNode<K, V>[] = new Array(this._level);
+
+      let current = this._head;
+      for (let i = this._level - 1; i >= 0; i--) {
+         while (
+            current.forward[i] &&
+            this._comparator(current.forward[i]!.key, key) < 0
+         ) {
+            current = current.forward[i]!;
+         }
+         update[i] = current;
+      }
+
+      const node = current.forward[0];
+      if (!node || this._comparator(node.key, key) !== 0) return false;
+
+      // Unlink the node and merge the spans around it
+      for (let i = 0; i < this._level; i++) {
+         if (update[i].forward[i] === node) {
+            update[i].span[i] += node.span[i] - 1;
+            update[i].forward[i] = node.forward[i];
+         } else {
+            update[i].span[i]--;
+         }
+      }
+      while (this._level > 1 && !this._head.forward[this._level - 1]) {
+         this._level--;
+      }
+
+      this._size--;
+      return true;
+   }
+
+   /**
+    * Returns the entry with the largest key that is less than or equal
+    * to the given key.
+    *
+    * @param key The key to search for.
+    *
+    * @timeComplexity `O(log(n))` on average
+    *
+    * @returns The entry or undefined if there is none.
+    */
+   floor(key: K): [K, V] | undefined {
+      const last = this._findLastBefore(key);
+      const next = last.forward[0];
+      if (next && this._comparator(next.key, key) === 0) {
+         return [next.key, next.value];
+      }
+      if (last !== this._head) return [last.key, last.value];
+   }
+
+   /**
+    * Returns the entry with the smallest key that is greater than or
+    * equal to the given key.
+    *
+    * @param key The key to search for.
+    *
+    * @timeComplexity `O(log(n))` on average
+    *
+    * @returns The entry or undefined if there is none.
+    */
+   ceiling(key: K): [K, V] | undefined {
+      const next = this._findLastBefore(key).forward[0];
+      if (next) return [next.key, next.value];
+   }
+
+   /**
+    * Iterates through the entries whose keys are between `lo` and `hi`
+    * (both inclusive), in ascending order.
+    *
+    * @param lo The lower bound of the keys.
+    * @param hi The upper bound of the keys.
+    *
+    * @timeComplexity `O(log(n) + k)` on average, where `k` is the number
+    * of entries in the range.
+    */
+   *range(lo: K, hi: K): IterableIterator<[K, V]> {
+      let current = this._findLastBefore(lo).forward[0];
+      while (current && this._comparator(current.key, hi) <= 0) {
+         yield [current.key, current.value];
+         current = current.forward[0];
+      }
+   }
+
+   /**
+    * Returns the number of keys that are less than the given key. For an
+    * existing key, this is its index in the list.
+    *
+    * @param key The key to rank.
+    *
+    * @timeComplexity `O(log(n))` on average
+    */
+   rank(key: K): number {
+      let rank = 0;
+      let current = this._head;
+      for (let i = this._level - 1; i >= 0; i--) {
+         while (
+            current.forward[i] &&
+            this._comparator(current.forward[i]!.key, key) < 0
+         ) {
+            rank += current.span[i];
+            current = current.forward[i]!;
+         }
+      }
+      return rank;
+   }
+
+   /**
+    * Returns the entry at the given position in ascending key order.
+    *
+    * @param index The position of the entry. Negative indices count back
+    * from the largest key.
+    *
+    * @timeComplexity `O(log(n))` on average
+    *
+    * @returns The entry or undefined if the index is out of bounds.
+    */
+   at(index: number): [K, V] | undefined {
+      if (index < 0) index += this._size;
+      if (index < 0 || index >= this._size) return;
+
+      // Positions are counted from the head, which sits at position 0
+      const target = index + 1;
+      let traversed = 0;
+      let current = this._head;
+      for (let i = this._level - 1; i >= 0; i--) {
+         while (current.forward[i] && traversed + current.span[i] <= target) {
+            traversed += current.span[i];
+            current = current.forward[i]!;
+         }
+         if (traversed === target) break;
+      }
+      return [current.key, current.value];
+   }
+
+   /**
+    * Returns the number of entries in the list.
+    *
+    * @timeComplexity `O(1)`
+    */
+   size(): number {
+      return this._size;
+   }
+
+   /**
+    * Returns true if the list is empty, false otherwise.
+    *
+    * @timeComplexity `O(1)`
+    */
+   isEmpty(): boolean {
+      return this._size === 0;
+   }
+
+   /**
+    * Removes all entries from the list.
+    *
+    * @timeComplexity `O(1)`
+    */
+   clear(): void {
+      this._head = this._createHead();
+      this._level = 1;
+      this._size = 0;
+   }
+
+   /**
+    * Creates a copy of the list.
+    *
+    * @timeComplexity `O(n * log(n))` on average
+    */
+   clone(): SkipList<K, V> {
+      const list = new SkipList<K, V>(this._comparator, this._config);
+      for (const [key, value] of this) {
+         list.set(key, value);
+      }
+      return list;
+   }
+
+   /**
+    * Converts the list to an array of entries in ascending key order.
+    *
+    * @timeComplexity `O(n)`
+    */
+   toArray(): [K, V][] {
+      return [...this.entries()];
+   }
+
+   *keys(): IterableIterator<K> {
+      for (let node = this._head.forward[0]; node; node = node.forward[0]) {
+         yield node.key;
+      }
+   }
+
+   *values(): IterableIterator<V> {
+      for (let node = this._head.forward[0]; node; node = node.forward[0]) {
+         yield node.value;
+      }
+   }
+
+   *entries(): IterableIterator<[K, V]> {
+      for (let node = this._head.forward[0]; node; node = node.forward[0]) {
+         yield [node.key, node.value];
+      }
+   }
+
+   *[Symbol.iterator](): IterableIterator<[K, V]> {
+      yield* this.entries();
+   }
+
+   /**
+    * Returns the last node whose key is less than the given key, or the
+    * head if there is none.
+    */
+   private _findLastBefore(key: K): SkipListNode<K, V> {
+      let current = this._head;
+      for (let i = this._level - 1; i >= 0; i--) {
+         while (
+            current.forward[i] &&
+            this._comparator(current.forward[i]!.key, key) < 0
+         ) {
+            current = current.forward[i]!;
+         }
+      }
+      return current;
+   }
+
+   private _findNode(key: K): SkipListNode<K, V> | undefined {
+      const next = this._findLastBefore(key).forward[0];
+      if (next && this._comparator(next.key, key) === 0) return next;
+   }
+
+   private _randomLevel(): number {
+      let level = 1;
+      while (
+         level < this._config.maxLevel &&
+         this._random() < this._config.probability
+      ) {
+         level++;
+      }
+      return level;
+   }
+
+   private _createHead(): SkipListNode<K, V> {
+      return new SkipListNode<K, V>(
+         undefined as K,
+         undefined as V,
+         this._config.maxLevel
+      );
+   }
+}
+
+class SkipListNode<K, V> {
+   public key: K;
+   public value: V;
+
+   /**
+    * The next node at each level.
+    */
+   public forward: (SkipListNode<K, V> | undefined)[];
+
+   /**
+    * The number of bottom-level steps to the next node at each level.
+    */
+   public span: number[];
+
+   constructor(key: K, value: V, level: number) {
+      this.key = key;
+      this.value = value;
+      this.forward = new Array(level).fill(undefined);
+      this.span = new Array(level).fill(0);
+   }
+}
+
+const defaultSkipListConfig = {
+   /**
+    * The maximum number of levels a node can have.
+    * @default 32
+    */
+   maxLevel: 32,
+
+   /**
+    * The probability that a node is promoted to the next level.
+    * @default 0.5
+    */
+   probability: 0.5,
+
+   /**
+    * The seed for choosing node levels. If set, the structure of the list
+    * is deterministic, which is useful for tests.
+    * @default undefined (uses `Math.random`)
+    */
+   seed: undefined as number | undefined,
+};
+
+export type SkipListConfig = typeof defaultSkipListConfig;
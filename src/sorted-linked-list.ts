@@ -0,0 +1,277 @@
+import { LinkedList, ListNode } from "./linked-list";
+import { Comparator, defaultComparator } from "./utils/comparator";
+
+export class SortedLinkedList<T = any> {
+   private readonly _config: SortedLinkedListConfig;
+   private _list: LinkedList<T> = new LinkedList();
+   private _comparator: Comparator<T> = defaultComparator;
+
+   /**
+    * Creates a new instance of SortedLinkedList.
+    *
+    * Values are kept in ascending order according to the comparator.
+    * Values that compare as equal keep the order they were inserted in.
+    *
+    * @param comparator The comparator function for the values. (Optional)
+    * @param config The configuration of the list. (Optional)
+    */
+   constructor(
+      comparator?: Comparator<T>,
+      config: Partial<SortedLinkedListConfig> = {}
+   ) {
+      if (comparator) this._comparator = comparator;
+      this._config = { ...defaultSortedLinkedListConfig, ...config };
+   }
+
+   /**
+    * Adds a value to the list at its sorted position. The search starts
+    * from the tail, so values that arrive in order are added in `O(1)`.
+    *
+    * @param value The value to add.
+    *
+    * @timeComplexity `O(n)`
+    *
+    * @returns The newly added node, or undefined if the value was rejected
+    * as a duplicate.
+    */
+   insert(value: T): ListNode<T> | undefined {
+      let current = this._list.tail();
+      while (current && this._comparator(current.value, value) > 0) {
+         current = current.prev();
+      }
+
+      if (current === undefined) return this._list.prepend(value);
+      if (this._config.unique && this._comparator(current.value, value) === 0) {
+         return;
+      }
+      return this._list.insertAfter(current, value);
+   }
+
+   /**
+    * Adds a batch of unsorted values to the list. The values are sorted
+    * among themselves first and then merged into the list.
+    *
+    * @param values The values to add.
+    *
+    * @timeComplexity `O(n + m * log(m))` where `m` is the number of values.
+    *
+    * @returns The number of values that were added.
+    */
+   insertAll(values: Iterable<T>): number {
+      const batch = LinkedList.fromArray([...values]);
+      batch.sort(this._comparator);
+      return this._mergeList(batch);
+   }
+
+   /**
+    * Moves all values of another sorted list into this list. The other
+    * list will be empty afterwards. Both lists are expected to use the
+    * same comparator.
+    *
+    * @param other The list whose values will be moved.
+    *
+    * @timeComplexity `O(n + m)`
+    *
+    * @returns The number of values that were added.
+    */
+   merge(other: SortedLinkedList<T>): number {
+      if (other === this) {
+         throw new Error("Cannot merge a list with itself.");
+      }
+      return this._mergeList(other._list);
+   }
+
+   /**
+    * Finds the first node with a value equal to the given value according
+    * to the comparator.
+    *
+    * @param value The value to find.
+    *
+    * @timeComplexity `O(n)`
+    *
+    * @returns The node or undefined if not found.
+    */
+   find(value: T): ListNode<T> | undefined {
+      for (let node of this._list) {
+         const order = this._comparator(node.value, value);
+         if (order === 0) return node;
+         if (order > 0) return;
+      }
+   }
+
+   /**
+    * Returns true if the list has a value equal to the given value,
+    * false otherwise.
+    *
+    * @param value The value to look for.
+    *
+    * @timeComplexity `O(n)`
+    */
+   has(value: T): boolean {
+      return this.find(value) !== undefined;
+   }
+
+   /**
+    * Removes the first value equal to the given value.
+    *
+    * @param value The value to remove.
+    *
+    * @timeComplexity `O(n)`
+    *
+    * @returns True if a value was removed, false otherwise.
+    */
+   remove(value: T): boolean {
+      const node = this.find(value);
+      return node !== undefined && this._list.deleteNode(node);
+   }
+
+   /**
+    * Removes a node from the list.
+    *
+    * @param node The node to remove.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @throws Error if the node was already deleted or isn't in this list.
+    *
+    * @returns True once the node is deleted.
+    */
+   deleteNode(node: ListNode<T>): boolean {
+      return this._list.deleteNode(node);
+   }
+
+   /**
+    * Returns the node with the smallest value.
+    *
+    * @timeComplexity `O(1)`
+    */
+   head(): ListNode<T> | undefined {
+      return this._list.head();
+   }
+
+   /**
+    * Returns the node with the largest value.
+    *
+    * @timeComplexity `O(1)`
+    */
+   tail(): ListNode<T> | undefined {
+      return this._list.tail();
+   }
+
+   /**
+    * Returns the number of values in the list.
+    *
+    * @timeComplexity `O(1)`
+    */
+   size(): number {
+      return this._list.size();
+   }
+
+   /**
+    * Returns true if the list is empty, false otherwise.
+    *
+    * @timeComplexity `O(1)`
+    */
+   isEmpty(): boolean {
+      return this._list.isEmpty();
+   }
+
+   /**
+    * Removes all values from the list.
+    *
+    * @timeComplexity `O(1)`
+    */
+   clear(): void {
+      this._list.clear();
+   }
+
+   /**
+    * Creates a copy of the list.
+    *
+    * @timeComplexity `O(n)`
+    */
+   clone(): SortedLinkedList<T> {
+      const list = new SortedLinkedList<T>(this._comparator, this._config);
+      list._list = this._list.clone();
+      return list;
+   }
+
+   /**
+    * Converts the list to an array of values in sorted order.
+    *
+    * @timeComplexity `O(n)`
+    */
+   toArray(): T[] {
+      return this._list.toValueArray();
+   }
+
+   /**
+    * Creates a sorted list from an array of values.
+    *
+    * @param array The array of values.
+    * @param comparator The comparator function for the values. (Optional)
+    * @param config The configuration of the list. (Optional)
+    *
+    * @timeComplexity `O(n * log(n))`
+    */
+   static fromArray<T>(
+      array: T[],
+      comparator?: Comparator<T>,
+      config?: Partial<SortedLinkedListConfig>
+   ): SortedLinkedList<T> {
+      const list = new SortedLinkedList<T>(comparator, config);
+      list.insertAll(array);
+      return list;
+   }
+
+   *nodes(): IterableIterator<ListNode<T>> {
+      yield* this._list.nodes();
+   }
+
+   *values(): IterableIterator<T> {
+      yield* this._list.values();
+   }
+
+   *[Symbol.iterator](): IterableIterator<T> {
+      yield* this.values();
+   }
+
+   /**
+    * Moves the nodes of a sorted linked list into this list, one at a
+    * time, so that both lists are only walked once.
+    */
+   private _mergeList(source: LinkedList<T>): number {
+      let added = 0;
+      let current = this._list.head();
+      for (let node = source.head(); node; node = source.head()) {
+         while (current && this._comparator(current.value, node.value) <= 0) {
+            current = current.next();
+         }
+
+         const prev = current ? current.prev() : this._list.tail();
+         if (
+            this._config.unique &&
+            prev &&
+            this._comparator(prev.value, node.value) === 0
+         ) {
+            source.deleteNode(node);
+            continue;
+         }
+
+         source.spliceRange(node, node, this._list, prev);
+         added++;
+      }
+      return added;
+   }
+}
+
+const defaultSortedLinkedListConfig = {
+   /**
+    * Whether to reject values that are equal to a value already in the
+    * list, according to the comparator.
+    * @default false
+    */
+   unique: false,
+};
+
+export type SortedLinkedListConfig = typeof defaultSortedLinkedListConfig;
@@ -0,0 +1,222 @@
+import { TrieNode } from "./trie";
+
+export class TrieMap<V = any> {
+   private _root = new TrieNode<V>("");
+   private _size: number = 0;
+
+   /**
+    * Associates a value with a key. If the key already exists, its value
+    * is replaced.
+    *
+    * @param key The key of the entry.
+    * @param value The value of the entry.
+    *
+    * @timeComplexity `O(m)` where `m` is the key's length.
+    */
+   set(key: string, value: V): void {
+      let current = this._root;
+      for (const char of key) {
+         current = current.addChild(char);
+      }
+      if (!current.isEndOfWord) {
+         current.isEndOfWord = true;
+         this._size++;
+      }
+      current.payload = value;
+   }
+
+   /**
+    * Returns the value associated with a key.
+    *
+    * @param key The key of the entry.
+    *
+    * @timeComplexity `O(m)` where `m` is the key's length.
+    *
+    * @returns The value or undefined if the key doesn't exist.
+    */
+   get(key: string): V | undefined {
+      const node = this._findNode(key);
+      return node?.isEndOfWord ? node.payload : undefined;
+   }
+
+   /**
+    * Checks if a key exists in the map.
+    *
+    * @param key The key to check.
+    *
+    * @timeComplexity `O(m)` where `m` is the key's length.
+    *
+    * @returns True if the key exists, otherwise false.
+    */
+   has(key: string): boolean {
+      return this._findNode(key)?.isEndOfWord === true;
+   }
+
+   /**
+    * Checks if any key in the map starts with the given prefix.
+    *
+    * @param prefix The prefix to check.
+    *
+    * @timeComplexity `O(m)` where `m` is the prefix's length.
+    *
+    * @returns True if the prefix is found, otherwise false.
+    */
+   hasPrefix(prefix: string): boolean {
+      return this._findNode(prefix) !== undefined;
+   }
+
+   /**
+    * Removes a key and its value from the map.
+    *
+    * @param key The key to remove.
+    *
+    * @timeComplexity `O(m)` where `m` is the key's length.
+    *
+    * @returns True if the key was removed, false if it was not found.
+    */
+   delete(key: string): boolean {
+      const path: TrieNode<V>[] = [this._root];
+      for (const char of key) {
+         const node = path[path.length - 1].children.get(char);
+         if (!node) return false;
+         path.push(node);
+      }
+
+      const node = path[path.length - 1];
+      if (!node.isEndOfWord) return false;
+      node.isEndOfWord = false;
+      node.payload = undefined;
+      this._size--;
+
+      // Remove the nodes that no longer lead to any key
+      for (let i = path.length - 1; i > 0; i--) {
+         const child = path[i];
+         if (child.isEndOfWord || child.children.size > 0) break;
+         path[i - 1].children.delete(child.value);
+      }
+
+      return true;
+   }
+
+   /**
+    * Returns all entries whose keys start with the given prefix.
+    *
+    * @param prefix The prefix of the keys.
+    *
+    * @timeComplexity `O(p + k)` where `p` is the prefix's length and
+    * `k` is the total number of characters in the matching keys.
+    *
+    * @returns An array of `[key, value]` pairs.
+    */
+   entriesWithPrefix(prefix: string): [string, V][] {
+      const node = this._findNode(prefix);
+      if (!node) return [];
+
+      const entries: [string, V][] = [];
+      this._collectEntries(node, prefix, entries);
+      return entries;
+   }
+
+   /**
+    * Finds the longest key in the map that is a prefix of the given word.
+    *
+    * @param word The word to match.
+    *
+    * @timeComplexity `O(m)` where `m` is the word's length.
+    *
+    * @returns The matched `[key, value]` pair or undefined if no key
+    * is a prefix of the word.
+    */
+   longestPrefixMatch(word: string): [string, V] | undefined {
+      let current = this._root;
+      let currentPrefix = "";
+      let match: [string, V] | undefined = undefined;
+      if (current.isEndOfWord) match = ["", current.payload as V];
+
+      for (const char of word) {
+         const node = current.children.get(char);
+         if (!node) break;
+
+         current = node;
+         currentPrefix += char;
+         if (node.isEndOfWord) {
+            match = [currentPrefix, node.payload as V];
+         }
+      }
+
+      return match;
+   }
+
+   /**
+    * Returns the number of keys in the map.
+    *
+    * @timeComplexity `O(1)`
+    */
+   size(): number {
+      return this._size;
+   }
+
+   /**
+    * Checks if the map is empty.
+    *
+    * @timeComplexity `O(1)`
+    *
+    * @returns True if the map is empty, otherwise false.
+    */
+   isEmpty(): boolean {
+      return this._size === 0;
+   }
+
+   /**
+    * Removes all keys from the map.
+    *
+    * @timeComplexity `O(1)`
+    */
+   clear(): void {
+      this._root = new TrieNode("");
+      this._size = 0;
+   }
+
+   *keys(): IterableIterator<string> {
+      for (const [key] of this.entries()) {
+         yield key;
+      }
+   }
+
+   *values(): IterableIterator<V> {
+      for (const [, value] of this.entries()) {
+         yield value;
+      }
+   }
+
+   *entries(): IterableIterator<[string, V]> {
+      yield* this.entriesWithPrefix("");
+   }
+
+   *[Symbol.iterator](): IterableIterator<[string, V]> {
+      yield* this.entries();
+   }
+
+   private _findNode(key: string): TrieNode<V> | undefined {
+      let current: TrieNode<V> | undefined = this._root;
+      for (const char of key) {
+         current = current.children.get(char);
+         if (!current) return;
+      }
+      return current;
+   }
+
+   private _collectEntries(
+      node: TrieNode<V>,
+      prefix: string,
+      entries: [string, V][]
+   ): void {
+      if (node.isEndOfWord) {
+         entries.push([prefix, node.payload as V]);
+      }
+
+      for (const [char, childNode] of node.children) {
+         this._collectEntries(childNode, prefix + char, entries);
+      }
+   }
+}
@@ -1,15 +1,41 @@
-class TrieNode {
-   public children: Map<string, TrieNode>;
+import { Heap } from "./heap";
+import { ByteReader, ByteWriter } from "./utils/bytes";
+import { Normalizer, tokenizers } from "./utils/tokenizer";
+
+export class TrieNode<V = unknown> {
+   public children: Map<string, TrieNode<V>>;
    public isEndOfWord: boolean;
    public readonly value: string;
 
+   /**
+    * The data associated with the word that ends at this node. This is
+    * only used by `TrieMap`.
+    */
+   public payload: V | undefined = undefined;
+
+   /**
+    * The weight of the word that ends at this node.
+    */
+   public weight: number = 0;
+
+   /**
+    * The largest weight of any word in this node's subtree.
+    */
+   public maxWeight: number = -Infinity;
+
+   /**
+    * The number of words in this node's subtree, including the word that
+    * ends at this node.
+    */
+   public wordCount: number = 0;
+
    constructor(value: string) {
       this.value = value;
       this.children = new Map();
       this.isEndOfWord = false;
    }
 
-   addChild(char: string): TrieNode {
+   addChild(char: string): TrieNode<V> {
       let node = this.children.get(char);
       if (!node) {
          node = new TrieNode(char);
@@ -20,21 +46,54 @@ class TrieNode {
 }
 
 export class Trie {
+   private readonly _config: TrieConfig;
    private _root = new TrieNode("");
+   private _size: number = 0;
+
+   /**
+    * A trie of the reversed words, used for suffix queries.
+    */
+   private _reversed: Trie | undefined = undefined;
+
+   /**
+    * Creates a new instance of Trie.
+    *
+    * Keys are passed through the normalizers and then split into tokens,
+    * which become the edges of the trie. The words that are returned are
+    * joined back from the tokens, so they're in their normalized form.
+    *
+    * @param config The configuration of the trie. (Optional)
+    */
+   constructor(config: Partial<TrieConfig> = {}) {
+      this._config = { ...defaultTrieConfig, ...config };
+      if (this._config.indexSuffixes) this._reversed = new Trie();
+   }
 
    /**
-    * Inserts a word into the trie.
+    * Inserts a word into the trie. Inserting a word that already exists
+    * adds to its weight, so the weight can be used as a frequency.
     *
     * @param word The word to insert.
+    * @param weight The weight to add to the word. (Default: `1`)
     *
     * @timeComplexity `O(m)` where `m` is the word's length.
     */
-   insert(word: string): void {
-      let current = this._root;
-      for (const char of word) {
-         current = current.addChild(char);
-      }
-      current.isEndOfWord = true;
+   insert(word: string, weight: number = 1): void {
+      this._insertTokens(this._tokenize(word), weight);
+   }
+
+   /**
+    * Returns the weight of a word.
+    *
+    * @param word The word to get the weight of.
+    *
+    * @timeComplexity `O(m)` where `m` is the word's length.
+    *
+    * @returns The weight of the word or undefined if the word is not found.
+    */
+   getWeight(word: string): number | undefined {
+      const node = this._findNode(this._tokenize(word));
+      return node?.isEndOfWord ? node.weight : undefined;
    }
 
    /**
@@ -47,12 +106,7 @@ export class Trie {
     * @returns True if the word is found, otherwise false.
     */
    search(word: string): boolean {
-      let current: TrieNode | undefined = this._root;
-      for (const char of word) {
-         current = current.children.get(char);
-         if (!current) return false;
-      }
-      return current.isEndOfWord;
+      return this._findNode(this._tokenize(word))?.isEndOfWord === true;
    }
 
    /**
@@ -65,12 +119,7 @@ export class Trie {
     * @returns True if the prefix is found, otherwise false.
     */
    startsWith(prefix: string): boolean {
-      let current: TrieNode | undefined = this._root;
-      for (const char of prefix) {
-         current = current.children.get(char);
-         if (!current) return false;
-      }
-      return true;
+      return this._findNode(this._tokenize(prefix)) !== undefined;
    }
 
    /**
@@ -84,35 +133,66 @@ export class Trie {
     * word was not found.
     */
    delete(word: string): boolean {
-      let deleted = false;
-
-      const helper = (node: TrieNode, word: string, index: number): boolean => {
-         if (index === word.length) {
-            if (!node.isEndOfWord) return false;
-            node.isEndOfWord = false;
-            deleted = true;
-
-            // should only delete if no children
-            return node.children.size === 0;
-         }
-
-         const char = word[index];
-         const childNode = node.children.get(char);
-         if (!childNode) return false;
+      return this._deleteTokens(this._tokenize(word));
+   }
 
-         const shouldDeleteChild = helper(childNode, word, index + 1);
-         if (shouldDeleteChild) {
-            node.children.delete(char);
-            deleted = true;
-            return node.children.size === 0 && !node.isEndOfWord;
-         }
+   /**
+    * Returns the number of words in the trie.
+    *
+    * @timeComplexity `O(1)`
+    */
+   size(): number {
+      return this._size;
+   }
 
-         return false;
-      };
+   /**
+    * Counts the nodes of the trie, including the root.
+    *
+    * @timeComplexity `O(k)` where `k` is the number of nodes.
+    */
+   nodeCount(): number {
+      let count = 0;
+      const stack = [this._root];
+      while (stack.length > 0) {
+         const node = stack.pop()!;
+         count++;
+         for (const child of node.children.values()) stack.push(child);
+      }
+      return count;
+   }
 
-      helper(this._root, word, 0);
+   /**
+    * Counts the words in the trie that start with the given prefix.
+    *
+    * @param prefix The prefix to count.
+    *
+    * @timeComplexity `O(m)` where `m` is the prefix's length.
+    *
+    * @returns The number of words with the prefix.
+    */
+   countWithPrefix(prefix: string): number {
+      return this._findNode(this._tokenize(prefix))?.wordCount ?? 0;
+   }
 
-      return deleted;
+   /**
+    * Checks if any word in the trie ends with the given suffix. This needs
+    * the `indexSuffixes` option, which keeps a second trie of the reversed
+    * words.
+    *
+    * @param suffix The suffix to check.
+    *
+    * @timeComplexity `O(m)` where `m` is the suffix's length.
+    *
+    * @throws Error if the trie doesn't index suffixes.
+    *
+    * @returns True if the suffix is found, otherwise false.
+    */
+   endsWith(suffix: string): boolean {
+      if (!this._reversed) {
+         throw new Error("Suffix queries need the `indexSuffixes` option.");
+      }
+      const tokens = this._tokenize(suffix).reverse();
+      return this._reversed._findNode(tokens) !== undefined;
    }
 
    /**
@@ -124,7 +204,7 @@ export class Trie {
     * @returns An array of all words stored in the trie.
     */
    getAllWords(): string[] {
-      return this._collectWords(this._root, "");
+      return this._collectWords(this._root, []);
    }
 
    /**
@@ -135,7 +215,7 @@ export class Trie {
     * @returns True if the trie is empty, otherwise false.
     */
    isEmpty(): boolean {
-      return this._root.children.size === 0;
+      return this._size === 0;
    }
 
    /**
@@ -145,6 +225,8 @@ export class Trie {
     */
    clear(): void {
       this._root = new TrieNode("");
+      this._size = 0;
+      this._reversed?.clear();
    }
 
    /**
@@ -154,57 +236,755 @@ export class Trie {
     *
     * @timeComplexity `O(m)` where `m` is the word's length.
     *
-    * @returns The longest prefix found in the trie.
+    * @returns The longest prefix found in the trie, or an empty string if
+    * there is none.
     */
    longestPrefixMatch(word: string): string {
+      const tokens = this._tokenize(word);
       let current = this._root;
-      let longestPrefix = "";
-      let currentPrefix = "";
+      let longestLength = 0;
 
-      for (const char of word) {
-         currentPrefix += char;
-         const node = current.children.get(char);
+      for (let i = 0; i < tokens.length; i++) {
+         const node = current.children.get(tokens[i]);
          if (!node) break;
 
          current = node;
          if (node.isEndOfWord) {
-            longestPrefix = currentPrefix;
+            longestLength = i + 1;
          }
       }
 
-      return longestPrefix;
+      if (longestLength === 0) return "";
+      return this._join(tokens.slice(0, longestLength));
    }
 
    /**
-    * Returns a list of all words in the trie with the given prefix.
+    * Returns a list of words in the trie with the given prefix.
     *
     * @param prefix The prefix to autocomplete.
+    * @param options.limit The maximum number of words to return.
+    * (Default: `Infinity`)
+    * @param options.sortBy The order of the words: `"insertion"` for the
+    * order their paths were added in, or `"weight"` for the heaviest words
+    * first, with ties in alphabetical order. (Default: `"insertion"`)
     *
     * @timeComplexity `O(p + k)` where `p` is the prefix's length and
-    * `k` is the total number of characters in the words that match the prefix.
+    * `k` is the total number of characters in the words that match the
+    * prefix. When sorting by weight, only the subtrees that can contain
+    * the top words are visited, which costs `O(p + l * m * log(l * m))`
+    * where `l` is the limit and `m` is the length of the longest word.
     *
     * @returns An array of words that start with the given prefix.
     */
-   autocomplete(prefix: string): string[] {
+   autocomplete(
+      prefix: string,
+      options: Partial<AutocompleteOptions> = {}
+   ): string[] {
+      const { limit, sortBy } = { ...defaultAutocompleteOptions, ...options };
+
+      const tokens = this._tokenize(prefix);
+      const node = this._findNode(tokens);
+      if (!node) return [];
+
+      if (sortBy === "weight") {
+         return this._collectTopWords(node, tokens, limit);
+      }
+      return this._collectWords(node, tokens, limit);
+   }
+
+   /**
+    * Finds the words that are within an edit distance of the query, by
+    * walking the trie with one row of the distance table per node, so
+    * whole branches are skipped once they can't match anymore.
+    *
+    * The distance is counted in tokens, which are characters by default.
+    *
+    * @param query The word to search for.
+    * @param maxDistance The maximum edit distance of the results.
+    * @param options.transpositions Whether swapping two adjacent characters
+    * counts as a single edit (Damerau-Levenshtein distance).
+    * (Default: `false`)
+    * @param options.prefix Whether to match words that start with something
+    * within the distance of the query, for fuzzy autocomplete. The distance
+    * of such a word is the smallest distance of any of its prefixes.
+    * (Default: `false`)
+    *
+    * @timeComplexity `O(q * k)` where `q` is the query's length and `k` is
+    * the number of visited nodes, which is at most the number of nodes in
+    * the trie.
+    *
+    * @returns The matching words with their distances, sorted by distance,
+    * then by weight (heaviest first).
+    */
+   fuzzySearch(
+      query: string,
+      maxDistance: number,
+      options: Partial<FuzzySearchOptions> = {}
+   ): FuzzyMatch[] {
+      const { transpositions, prefix } = {
+         ...defaultFuzzySearchOptions,
+         ...options,
+      };
+      const queryChars = this._tokenize(query);
+      const path: string[] = [];
+      const matches: (FuzzyMatch & { weight: number })[] = [];
+
+      const visit = (
+         node: TrieNode,
+         row: number[],
+         prevRow: number[] | undefined,
+         prevChar: string | undefined,
+         bestDistance: number
+      ): void => {
+         const distance = prefix
+            ? Math.min(bestDistance, row[queryChars.length])
+            : row[queryChars.length];
+         if (node.isEndOfWord && distance <= maxDistance) {
+            matches.push({ word: this._join(path), distance, weight: node.weight });
+         }
+
+         // Every cell only grows from here, so stop if none can match
+         if (Math.min(...row) > maxDistance && distance > maxDistance) return;
+
+         for (const [char, childNode] of node.children) {
+            const nextRow = [row[0] + 1];
+            for (let j = 1; j <= queryChars.length; j++) {
+               const cost = queryChars[j - 1] === char ? 0 : 1;
+               nextRow[j] = Math.min(
+                  row[j] + 1,
+                  nextRow[j - 1] + 1,
+                  row[j - 1] + cost
+               );
+               if (
+                  transpositions &&
+                  prevRow &&
+                  j > 1 &&
+                  queryChars[j - 1] === prevChar &&
+                  queryChars[j - 2] === char
+               ) {
+                  nextRow[j] = Math.min(nextRow[j], prevRow[j - 2] + 1);
+               }
+            }
+            path.push(char);
+            visit(childNode, nextRow, row, char, distance);
+            path.pop();
+         }
+      };
+
+      const firstRow = Array.from({ length: queryChars.length + 1 }, (_, i) => i);
+      visit(this._root, firstRow, undefined, undefined, Infinity);
+
+      return matches
+         .sort((a, b) => a.distance - b.distance || b.weight - a.weight)
+         .map(({ word, distance }) => ({ word, distance }));
+   }
+
+   /**
+    * Iterates through the words that match a wildcard pattern.
+    *
+    * The pattern supports:
+    * - `?` for any single character
+    * - `*` for any sequence of characters, including none
+    * - `[abc]`, `[a-z]` for a character class, and `[!abc]` or `[^abc]`
+    *   for a negated one
+    * - `\` to match the next character literally
+    *
+    * The pattern is split with the trie's tokenizer, so with a tokenizer
+    * other than `characters`, `?` and `*` stand for whole tokens, e.g.
+    * `"/users/?/posts"` with `pathSegments`.
+    *
+    * @param pattern The pattern to match.
+    *
+    * @timeComplexity `O(k * p)` where `k` is the number of visited nodes
+    * and `p` is the pattern's length. Branches that can't match are
+    * skipped.
+    *
+    * @throws Error if the pattern is invalid.
+    */
+   *match(pattern: string): IterableIterator<string> {
+      const tokens = parsePattern(this._tokenize(pattern));
+
+      // Each entry keeps every position in the pattern the word can be at,
+      // so words are never visited (or yielded) twice
+      const stack: [TrieNode, string[], number[]][] = [
+         [this._root, [], closePatternStates(tokens, [0])],
+      ];
+      while (stack.length > 0) {
+         const [node, path, states] = stack.pop()!;
+         if (node.isEndOfWord && states.includes(tokens.length)) {
+            yield this._join(path);
+         }
+
+         const children = [...node.children];
+         for (let i = children.length - 1; i >= 0; i--) {
+            const [char, childNode] = children[i];
+            const nextStates = stepPatternStates(tokens, states, char);
+            if (nextStates.length > 0) {
+               stack.push([childNode, [...path, char], nextStates]);
+            }
+         }
+      }
+   }
+
+   /**
+    * Returns a JSON-friendly representation of the trie, which keeps the
+    * shape of the trie, the weights and the order of the children. This is
+    * also what `JSON.stringify` uses.
+    *
+    * @timeComplexity `O(k)` where `k` is the number of nodes.
+    */
+   toJSON(): TrieJSON {
+      return { version: SERIALIZATION_VERSION, root: nodeToJSON(this._root) };
+   }
+
+   /**
+    * Creates a trie from the result of `toJSON`. The nodes are rebuilt
+    * directly, without inserting the words again.
+    *
+    * The stored tokens are already normalized, so the trie should be
+    * created with the same tokenizer and normalizers it was saved with.
+    *
+    * @param json The result of `toJSON`.
+    * @param config The configuration of the trie. (Optional)
+    *
+    * @timeComplexity `O(k)` where `k` is the number of nodes. With the
+    * `indexSuffixes` option, the suffix index is rebuilt from the words,
+    * which costs `O(n * m)` where `n` is the number of words and `m` is the
+    * average length of each word.
+    *
+    * @throws Error if the JSON is invalid or has an unsupported version.
+    */
+   static fromJSON(json: TrieJSON, config?: Partial<TrieConfig>): Trie {
+      if (json?.version !== SERIALIZATION_VERSION) {
+         throw new Error(`Unsupported trie JSON version: ${json?.version}.`);
+      }
+      const trie = new Trie(config);
+      trie._load(nodeFromJSON("", json.root));
+      return trie;
+   }
+
+   /**
+    * Encodes the trie into a compact binary snapshot. The nodes are
+    * written in preorder, each as a varint with its number of children and
+    * flags, followed by its weight if it isn't `1`, and each child edge as
+    * a length-prefixed UTF-8 token. A node with a single-byte token
+    * usually takes 3 bytes.
+    *
+    * @timeComplexity `O(k)` where `k` is the number of nodes.
+    *
+    * @returns The snapshot, to be loaded with `Trie.fromSnapshot`.
+    */
+   toSnapshot(): Uint8Array {
+      const writer = new ByteWriter();
+      for (const byte of SNAPSHOT_MAGIC) writer.writeByte(byte);
+      writer.writeByte(SERIALIZATION_VERSION);
+      writeNode(writer, this._root);
+      return writer.toBytes();
+   }
+
+   /**
+    * Creates a trie from a snapshot made with `toSnapshot`. The nodes are
+    * rebuilt directly, without inserting the words again.
+    *
+    * The stored tokens are already normalized, so the trie should be
+    * created with the same tokenizer and normalizers it was saved with.
+    *
+    * @param bytes The snapshot.
+    * @param config The configuration of the trie. (Optional)
+    *
+    * @timeComplexity `O(k)` where `k` is the number of nodes. With the
+    * `indexSuffixes` option, the suffix index is rebuilt from the words,
+    * which costs `O(n * m)` where `n` is the number of words and `m` is the
+    * average length of each word.
+    *
+    * @throws Error if the bytes are not a snapshot or have an unsupported
+    * version.
+    * @throws RangeError if the snapshot is truncated.
+    */
+   static fromSnapshot(bytes: Uint8Array, config?: Partial<TrieConfig>): Trie {
+      const reader = new ByteReader(bytes);
+      for (const byte of SNAPSHOT_MAGIC) {
+         if (reader.readByte() !== byte) {
+            throw new Error("Invalid trie snapshot.");
+         }
+      }
+      const version = reader.readByte();
+      if (version !== SERIALIZATION_VERSION) {
+         throw new Error(`Unsupported trie snapshot version: ${version}.`);
+      }
+
+      const root = readNode(reader, "");
+      if (!reader.isAtEnd()) {
+         throw new Error("Invalid trie snapshot.");
+      }
+
+      const trie = new Trie(config);
+      trie._load(root);
+      return trie;
+   }
+
+   /**
+    * Iterates through the words in lexicographical order.
+    *
+    * @timeComplexity `O(n * k)` where `n` is the number of words and
+    * `k` is the average length of each word.
+    */
+   *values(): IterableIterator<string> {
+      const stack: [TrieNode, string[]][] = [[this._root, []]];
+      while (stack.length > 0) {
+         const [node, path] = stack.pop()!;
+         if (node.isEndOfWord) yield this._join(path);
+
+         const chars = [...node.children.keys()].sort().reverse();
+         for (const char of chars) {
+            stack.push([node.children.get(char)!, [...path, char]]);
+         }
+      }
+   }
+
+   *[Symbol.iterator](): IterableIterator<string> {
+      yield* this.values();
+   }
+
+   private _tokenize(key: string): string[] {
+      for (const normalize of this._config.normalizers) {
+         key = normalize(key);
+      }
+      return this._config.tokenizer.split(key);
+   }
+
+   private _join(tokens: string[]): string {
+      return this._config.tokenizer.join(tokens);
+   }
+
+   private _findNode(tokens: string[]): TrieNode | undefined {
       let current: TrieNode | undefined = this._root;
-      for (const char of prefix) {
+      for (const char of tokens) {
          current = current.children.get(char);
-         if (!current) return [];
+         if (!current) return;
       }
+      return current;
+   }
+
+   private _insertTokens(tokens: string[], weight: number): void {
+      const path: TrieNode[] = [this._root];
+      for (const char of tokens) {
+         path.push(path[path.length - 1].addChild(char));
+      }
+
+      const node = path[path.length - 1];
+      if (!node.isEndOfWord) {
+         for (const current of path) current.wordCount++;
+         this._size++;
+         this._reversed?._insertTokens([...tokens].reverse(), 1);
+      }
+      node.weight = node.isEndOfWord ? node.weight + weight : weight;
+      node.isEndOfWord = true;
 
-      return this._collectWords(current, prefix);
+      if (weight >= 0) {
+         for (const current of path) {
+            current.maxWeight = Math.max(current.maxWeight, node.weight);
+         }
+      } else {
+         for (let i = path.length - 1; i >= 0; i--) {
+            this._updateMaxWeight(path[i]);
+         }
+      }
    }
 
-   private _collectWords(node: TrieNode, prefix: string): string[] {
-      const words: string[] = [];
+   private _deleteTokens(tokens: string[]): boolean {
+      let deleted = false;
+
+      const helper = (node: TrieNode, index: number): boolean => {
+         if (index === tokens.length) {
+            if (!node.isEndOfWord) return false;
+            node.isEndOfWord = false;
+            node.weight = 0;
+            node.wordCount--;
+            this._updateMaxWeight(node);
+            deleted = true;
+
+            // should only delete if no children
+            return node.children.size === 0;
+         }
+
+         const char = tokens[index];
+         const childNode = node.children.get(char);
+         if (!childNode) return false;
+
+         const shouldDeleteChild = helper(childNode, index + 1);
+         if (shouldDeleteChild) {
+            node.children.delete(char);
+            deleted = true;
+         }
+         if (deleted) {
+            node.wordCount--;
+            this._updateMaxWeight(node);
+         }
+
+         return shouldDeleteChild && node.children.size === 0 && !node.isEndOfWord;
+      };
+
+      helper(this._root, 0);
+
+      if (deleted) {
+         this._size--;
+         this._reversed?._deleteTokens([...tokens].reverse());
+      }
+      return deleted;
+   }
+
+   private _collectWords(
+      node: TrieNode,
+      path: string[],
+      limit: number = Infinity,
+      words: string[] = []
+   ): string[] {
+      if (words.length >= limit) return words;
       if (node.isEndOfWord) {
-         words.push(prefix);
+         words.push(this._join(path));
       }
 
       for (const [char, childNode] of node.children) {
-         words.push(...this._collectWords(childNode, prefix + char));
+         path.push(char);
+         this._collectWords(childNode, path, limit, words);
+         path.pop();
       }
 
       return words;
    }
+
+   /**
+    * Collects the heaviest words best-first: subtrees are expanded in the
+    * order of the heaviest word they contain, so the search can stop as
+    * soon as enough words are found.
+    */
+   private _collectTopWords(
+      node: TrieNode,
+      path: string[],
+      limit: number
+   ): string[] {
+      const candidates = new Heap<WordCandidate>((a, b) => {
+         if (a.weight !== b.weight) return b.weight - a.weight;
+         if (a.word !== b.word) return a.word < b.word ? -1 : 1;
+         return Number(b.isWord) - Number(a.isWord);
+      });
+      candidates.push({
+         node,
+         path,
+         word: this._join(path),
+         weight: node.maxWeight,
+         isWord: false,
+      });
+
+      const words: string[] = [];
+      while (words.length < limit && !candidates.isEmpty()) {
+         const candidate = candidates.pop()!;
+         if (candidate.isWord) {
+            words.push(candidate.word);
+            continue;
+         }
+
+         const current = candidate.node;
+         if (current.isEndOfWord) {
+            candidates.push({ ...candidate, weight: current.weight, isWord: true });
+         }
+         for (const [char, childNode] of current.children) {
+            const childPath = [...candidate.path, char];
+            candidates.push({
+               node: childNode,
+               path: childPath,
+               word: this._join(childPath),
+               weight: childNode.maxWeight,
+               isWord: false,
+            });
+         }
+      }
+
+      return words;
+   }
+
+   /**
+    * Replaces the nodes of the trie with a loaded tree.
+    */
+   private _load(root: TrieNode): void {
+      this._root = root;
+      this._size = root.wordCount;
+      if (!this._reversed) return;
+
+      this._reversed.clear();
+      const stack: [TrieNode, string[]][] = [[root, []]];
+      while (stack.length > 0) {
+         const [node, path] = stack.pop()!;
+         if (node.isEndOfWord) {
+            this._reversed._insertTokens([...path].reverse(), 1);
+         }
+         for (const [char, childNode] of node.children) {
+            stack.push([childNode, [...path, char]]);
+         }
+      }
+   }
+
+   private _updateMaxWeight(node: TrieNode): void {
+      let maxWeight = node.isEndOfWord ? node.weight : -Infinity;
+      for (const childNode of node.children.values()) {
+         maxWeight = Math.max(maxWeight, childNode.maxWeight);
+      }
+      node.maxWeight = maxWeight;
+   }
+}
+
+const SNAPSHOT_MAGIC = [0x54, 0x52, 0x49, 0x45]; // "TRIE"
+const SERIALIZATION_VERSION = 1;
+
+const END_OF_WORD_FLAG = 0b01;
+const WEIGHT_FLAG = 0b10;
+const FLAG_BITS = 4;
+
+function nodeToJSON(node: TrieNode): TrieNodeJSON {
+   const json: TrieNodeJSON = {};
+   if (node.isEndOfWord) json.weight = node.weight;
+   if (node.children.size > 0) {
+      json.children = [...node.children].map(([char, childNode]) => [
+         char,
+         nodeToJSON(childNode),
+      ]);
+   }
+   return json;
+}
+
+function nodeFromJSON(char: string, json: TrieNodeJSON): TrieNode {
+   if (typeof json !== "object" || json === null) {
+      throw new Error("Invalid trie JSON.");
+   }
+   const node = new TrieNode(char);
+   if (json.weight !== undefined) {
+      if (typeof json.weight !== "number") {
+         throw new Error("Invalid trie JSON.");
+      }
+      node.isEndOfWord = true;
+      node.weight = json.weight;
+   }
+   const children = json.children ?? [];
+   if (!Array.isArray(children)) {
+      throw new Error("Invalid trie JSON.");
+   }
+   for (const entry of children) {
+      if (
+         !Array.isArray(entry) ||
+         entry.length !== 2 ||
+         typeof entry[0] !== "string"
+      ) {
+         throw new Error("Invalid trie JSON.");
+      }
+      const [childChar, childJSON] = entry;
+      node.children.set(childChar, nodeFromJSON(childChar, childJSON));
+   }
+   updateCounts(node);
+   return node;
+}
+
+function writeNode(writer: ByteWriter, node: TrieNode): void {
+   let flags = 0;
+   if (node.isEndOfWord) flags |= END_OF_WORD_FLAG;
+   if (node.isEndOfWord && node.weight !== 1) flags |= WEIGHT_FLAG;
+
+   writer.writeVarint(node.children.size * FLAG_BITS + flags);
+   if (flags & WEIGHT_FLAG) writer.writeFloat64(node.weight);
+   for (const [char, childNode] of node.children) {
+      writer.writeString(char);
+      writeNode(writer, childNode);
+   }
+}
+
+function readNode(reader: ByteReader, char: string): TrieNode {
+   const header = reader.readVarint();
+   const flags = header % FLAG_BITS;
+   const childCount = Math.floor(header / FLAG_BITS);
+
+   const node = new TrieNode(char);
+   if (flags & END_OF_WORD_FLAG) {
+      node.isEndOfWord = true;
+      node.weight = flags & WEIGHT_FLAG ? reader.readFloat64() : 1;
+   }
+   for (let i = 0; i < childCount; i++) {
+      const childChar = reader.readString();
+      node.children.set(childChar, readNode(reader, childChar));
+   }
+   updateCounts(node);
+   return node;
+}
+
+/**
+ * Sets the word count and max weight of a loaded node from its children.
+ */
+function updateCounts(node: TrieNode): void {
+   node.wordCount = node.isEndOfWord ? 1 : 0;
+   node.maxWeight = node.isEndOfWord ? node.weight : -Infinity;
+   for (const childNode of node.children.values()) {
+      node.wordCount += childNode.wordCount;
+      node.maxWeight = Math.max(node.maxWeight, childNode.maxWeight);
+   }
+}
+
+type PatternToken =
+   | { type: "char"; char: string }
+   | { type: "any" }
+   | { type: "star" }
+   | { type: "class"; negated: boolean; ranges: [string, string][] };
+
+/**
+ * Parses the tokens of a wildcard pattern.
+ */
+function parsePattern(chars: string[]): PatternToken[] {
+   const tokens: PatternToken[] = [];
+
+   for (let i = 0; i < chars.length; i++) {
+      const char = chars[i];
+      if (char === "?") {
+         tokens.push({ type: "any" });
+      } else if (char === "*") {
+         // Consecutive stars match the same as a single one
+         if (tokens[tokens.length - 1]?.type !== "star") {
+            tokens.push({ type: "star" });
+         }
+      } else if (char === "\\") {
+         if (++i >= chars.length) {
+            throw new Error("Invalid pattern: nothing to escape at the end.");
+         }
+         tokens.push({ type: "char", char: chars[i] });
+      } else if (char === "[") {
+         const end = chars.indexOf("]", i + 2);
+         if (end === -1) {
+            throw new Error("Invalid pattern: unclosed character class.");
+         }
+
+         let body = chars.slice(i + 1, end);
+         const negated = body[0] === "!" || body[0] === "^";
+         if (negated) body = body.slice(1);
+
+         const ranges: [string, string][] = [];
+         for (let j = 0; j < body.length; j++) {
+            if (body[j + 1] === "-" && j + 2 < body.length) {
+               ranges.push([body[j], body[j + 2]]);
+               j += 2;
+            } else {
+               ranges.push([body[j], body[j]]);
+            }
+         }
+         tokens.push({ type: "class", negated, ranges });
+         i = end;
+      } else {
+         tokens.push({ type: "char", char });
+      }
+   }
+
+   return tokens;
 }
+
+/**
+ * Adds the positions that can be reached without consuming a character,
+ * which is by skipping stars.
+ */
+function closePatternStates(tokens: PatternToken[], states: number[]): number[] {
+   const closed: number[] = [];
+   for (let state of states) {
+      while (!closed.includes(state)) {
+         closed.push(state);
+         if (tokens[state]?.type !== "star") break;
+         state++;
+      }
+   }
+   return closed;
+}
+
+/**
+ * Returns the positions in the pattern after consuming a character.
+ */
+function stepPatternStates(
+   tokens: PatternToken[],
+   states: number[],
+   char: string
+): number[] {
+   const nextStates: number[] = [];
+   for (const state of states) {
+      const token = tokens[state];
+      if (token === undefined) continue;
+
+      if (token.type === "star") {
+         nextStates.push(state);
+      } else if (
+         token.type === "any" ||
+         (token.type === "char" && token.char === char) ||
+         (token.type === "class" &&
+            token.ranges.some(([from, to]) => from <= char && char <= to) !==
+               token.negated)
+      ) {
+         nextStates.push(state + 1);
+      }
+   }
+   return closePatternStates(tokens, nextStates);
+}
+
+type WordCandidate = {
+   node: TrieNode;
+   path: string[];
+   word: string;
+   weight: number;
+   isWord: boolean;
+};
+
+const defaultAutocompleteOptions = {
+   limit: Infinity,
+   sortBy: "insertion" as "insertion" | "weight",
+};
+
+export type AutocompleteOptions = typeof defaultAutocompleteOptions;
+
+export type FuzzyMatch = { word: string; distance: number };
+
+export type TrieJSON = { version: number; root: TrieNodeJSON };
+
+export type TrieNodeJSON = {
+   /**
+    * The weight of the word that ends at this node, if there is one.
+    */
+   weight?: number;
+
+   /**
+    * The children in insertion order, as pairs of tokens and nodes.
+    */
+   children?: [string, TrieNodeJSON][];
+};
+
+const defaultFuzzySearchOptions = {
+   transpositions: false,
+   prefix: false,
+};
+
+export type FuzzySearchOptions = typeof defaultFuzzySearchOptions;
+
+const defaultTrieConfig = {
+   /**
+    * Whether to keep a second trie of the reversed words to answer
+    * `endsWith` queries. This doubles the memory usage.
+    * @default false
+    */
+   indexSuffixes: false,
+
+   /**
+    * How keys are split into the tokens that make up the edges of the trie.
+    * See `tokenizers` for the built-in ones.
+    * @default tokenizers.characters
+    */
+   tokenizer: tokenizers.characters,
+
+   /**
+    * The functions that keys go through before they are tokenized, in
+    * order. See `normalizers` for the built-in ones.
+    * @default []
+    */
+   normalizers: [] as Normalizer[],
+};
+
+export type TrieConfig = typeof defaultTrieConfig;
@@ -0,0 +1,162 @@
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder("utf-8", { fatal: true });
+
+/**
+ * Writes values into a growing byte buffer.
+ */
+export class ByteWriter {
+   private _bytes = new Uint8Array(64);
+   private _length: number = 0;
+
+   /**
+    * Writes a single byte.
+    *
+    * @param byte The byte to write, from 0 to 255.
+    */
+   writeByte(byte: number): void {
+      this._reserve(1);
+      this._bytes[this._length++] = byte;
+   }
+
+   /**
+    * Writes a non-negative integer as a varint (LEB128), which takes one
+    * byte for values below 128.
+    *
+    * @param value The integer to write.
+    *
+    * @throws RangeError if the value is not a non-negative safe integer.
+    */
+   writeVarint(value: number): void {
+      if (!Number.isSafeInteger(value) || value < 0) {
+         throw new RangeError("Varint must be a non-negative safe integer.");
+      }
+      while (value >= 0x80) {
+         this.writeByte((value % 0x80) | 0x80);
+         value = Math.floor(value / 0x80);
+      }
+      this.writeByte(value);
+   }
+
+   /**
+    * Writes a number as a 64-bit float.
+    *
+    * @param value The number to write.
+    */
+   writeFloat64(value: number): void {
+      this._reserve(8);
+      new DataView(this._bytes.buffer).setFloat64(this._length, value);
+      this._length += 8;
+   }
+
+   /**
+    * Writes a string as UTF-8, prefixed with its length in bytes.
+    *
+    * @param value The string to write.
+    */
+   writeString(value: string): void {
+      const bytes = textEncoder.encode(value);
+      this.writeVarint(bytes.length);
+      this._reserve(bytes.length);
+      this._bytes.set(bytes, this._length);
+      this._length += bytes.length;
+   }
+
+   /**
+    * Returns the written bytes.
+    */
+   toBytes(): Uint8Array {
+      return this._bytes.slice(0, this._length);
+   }
+
+   private _reserve(count: number): void {
+      if (this._length + count <= this._bytes.length) return;
+
+      let capacity = this._bytes.length * 2;
+      while (capacity < this._length + count) capacity *= 2;
+      const bytes = new Uint8Array(capacity);
+      bytes.set(this._bytes.subarray(0, this._length));
+      this._bytes = bytes;
+   }
+}
+
+/**
+ * Reads the values written by `ByteWriter`.
+ */
+export class ByteReader {
+   private readonly _bytes: Uint8Array;
+   private readonly _view: DataView;
+   private _offset: number = 0;
+
+   constructor(bytes: Uint8Array) {
+      this._bytes = bytes;
+      this._view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+   }
+
+   /**
+    * Reads a single byte.
+    *
+    * @throws RangeError if there are no bytes left.
+    */
+   readByte(): number {
+      this._ensure(1);
+      return this._bytes[this._offset++];
+   }
+
+   /**
+    * Reads a non-negative integer written as a varint.
+    *
+    * @throws RangeError if the varint is truncated or too large.
+    */
+   readVarint(): number {
+      let value = 0;
+      let scale = 1;
+      while (true) {
+         const byte = this.readByte();
+         value += (byte & 0x7f) * scale;
+         if (!Number.isSafeInteger(value)) {
+            throw new RangeError("Varint is too large.");
+         }
+         if ((byte & 0x80) === 0) return value;
+         scale *= 0x80;
+      }
+   }
+
+   /**
+    * Reads a 64-bit float.
+    *
+    * @throws RangeError if there are less than 8 bytes left.
+    */
+   readFloat64(): number {
+      this._ensure(8);
+      const value = this._view.getFloat64(this._offset);
+      this._offset += 8;
+      return value;
+   }
+
+   /**
+    * Reads a string written with `writeString`.
+    *
+    * @throws RangeError if the string is truncated.
+    * @throws TypeError if the string is not valid UTF-8.
+    */
+   readString(): string {
+      const length = this.readVarint();
+      this._ensure(length);
+      const bytes = this._bytes.subarray(this._offset, this._offset + length);
+      this._offset += length;
+      return textDecoder.decode(bytes);
+   }
+
+   /**
+    * Checks if all bytes have been read.
+    */
+   isAtEnd(): boolean {
+      return this._offset === this._bytes.length;
+   }
+
+   private _ensure(count: number): void {
+      if (this._offset + count > this._bytes.length) {
+         throw new RangeError("Unexpected end of data.");
+      }
+   }
+}
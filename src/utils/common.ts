@@ -30,3 +30,23 @@ export function isOverlapping(
    }
    return lowA < highB && lowB < highA;
 }
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32), so that
+ * randomized structures can behave deterministically.
+ *
+ * @param seed The seed of the generator.
+ *
+ * @returns A function that returns numbers between 0 (inclusive) and
+ * 1 (exclusive), like `Math.random`.
+ */
+export function createRandom(seed: number): () => number {
+   let state = seed >>> 0;
+   return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+   };
+}
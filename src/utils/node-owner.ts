@@ -0,0 +1,73 @@
+/**
+ * Keeps track of the structure that owns a group of nodes, so that
+ * ownership can be handed over or revoked for all of them at once.
+ *
+ * Owners form a disjoint set forest: handing over the nodes links the
+ * two trees by rank, and lookups follow the links to the root, which
+ * holds the current owner.
+ */
+export class NodeOwner<O> {
+   private _owner: O | undefined;
+   private _parent: NodeOwner<O> | undefined = undefined;
+   private _rank: number = 0;
+
+   constructor(owner: O) {
+      this._owner = owner;
+   }
+
+   /**
+    * Returns the structure that currently owns the nodes.
+    *
+    * @timeComplexity `O(α(n))` amortized
+    */
+   get(): O | undefined {
+      return this._root()._owner;
+   }
+
+   /**
+    * Hands over the nodes to another owner.
+    *
+    * @timeComplexity `O(α(n))` amortized
+    */
+   forwardTo(owner: NodeOwner<O>): void {
+      const root = this._root();
+      const target = owner._root();
+      if (root === target) return;
+
+      if (root._rank > target._rank) {
+         // Keep the taller tree's root, but give it the new owner
+         root._owner = target._owner;
+         target._owner = undefined;
+         target._parent = root;
+         return;
+      }
+
+      root._owner = undefined;
+      root._parent = target;
+      if (root._rank === target._rank) target._rank++;
+   }
+
+   /**
+    * Makes the nodes ownerless.
+    *
+    * @timeComplexity `O(α(n))` amortized
+    */
+   release(): void {
+      this._root()._owner = undefined;
+   }
+
+   private _root(): NodeOwner<O> {
+      let root: NodeOwner<O> = this;
+      while (root._parent !== undefined) root = root._parent;
+
+      // Compress the path for faster lookups next time
+      let current: NodeOwner<O> = this;
+      while (current._parent !== undefined) {
+         const parent: NodeOwner<O> = current._parent;
+         current._parent = root;
+         current = parent;
+      }
+
+      return root;
+   }
+}
@@ -0,0 +1,14 @@
+/**
+ * The common interface of the heap-based priority queues, so that
+ * implementations can be swapped without changing the calling code.
+ */
+export interface PriorityQueue<T> {
+   size(): number;
+   isEmpty(): boolean;
+   peek(): T | undefined;
+   push(...items: T[]): void;
+   pop(): T | undefined;
+   clear(): void;
+   clone(): PriorityQueue<T>;
+   toArray(): T[];
+}
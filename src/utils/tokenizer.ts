@@ -0,0 +1,65 @@
+/**
+ * Splits keys into the tokens that make up the edges of a trie, and
+ * joins tokens back into keys.
+ */
+export type Tokenizer = {
+   split: (key: string) => string[];
+   join: (tokens: string[]) => string;
+};
+
+/**
+ * Transforms keys before they are tokenized, e.g. to make lookups
+ * case-insensitive.
+ */
+export type Normalizer = (key: string) => string;
+
+export const tokenizers = {
+   /**
+    * One token per character (Unicode code point).
+    */
+   characters: {
+      split: (key: string): string[] => [...key],
+      join: (tokens: string[]): string => tokens.join(""),
+   } as Tokenizer,
+
+   /**
+    * One token per path segment, split on `/`. Empty segments are ignored,
+    * so `"/api//users/"` has the same tokens as `"/api/users"`.
+    */
+   pathSegments: {
+      split: (key: string): string[] => {
+         return key.split("/").filter((segment) => segment.length > 0);
+      },
+      join: (tokens: string[]): string => "/" + tokens.join("/"),
+   } as Tokenizer,
+
+   /**
+    * One token per word, split on whitespace.
+    */
+   words: {
+      split: (key: string): string[] => {
+         return key.split(/\s+/).filter((word) => word.length > 0);
+      },
+      join: (tokens: string[]): string => tokens.join(" "),
+   } as Tokenizer,
+};
+
+export const normalizers = {
+   /**
+    * Makes keys case-insensitive.
+    */
+   caseFold: ((key: string): string => key.toLowerCase()) as Normalizer,
+
+   /**
+    * Composes characters into their canonical form (Unicode NFC), so that
+    * e.g. `"é"` is the same whether it's typed as one or two code points.
+    */
+   nfc: ((key: string): string => key.normalize("NFC")) as Normalizer,
+
+   /**
+    * Removes accents and other combining marks, e.g. `"café"` -> `"cafe"`.
+    */
+   stripAccents: ((key: string): string => {
+      return key.normalize("NFD").replace(/\p{M}/gu, "").normalize("NFC");
+   }) as Normalizer,
+};
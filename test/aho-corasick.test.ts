@@ -0,0 +1,127 @@
+import { AhoCorasick, Trie } from "../src";
+import { describe, it, expect } from "vitest";
+
+describe("AhoCorasick", () => {
+   it("should find every match with its offsets", () => {
+      const automaton = AhoCorasick.fromPatterns(["he", "she", "his", "hers"]);
+
+      expect(automaton.findAll("ushers")).toEqual([
+         { pattern: "she", start: 1, end: 4 },
+         { pattern: "he", start: 2, end: 4 },
+         { pattern: "hers", start: 2, end: 6 },
+      ]);
+      expect(automaton.findAll("ahishers")).toEqual([
+         { pattern: "his", start: 1, end: 4 },
+         { pattern: "she", start: 3, end: 6 },
+         { pattern: "he", start: 4, end: 6 },
+         { pattern: "hers", start: 4, end: 8 },
+      ]);
+      expect(automaton.findAll("xyz")).toEqual([]);
+   });
+
+   it("should find overlapping and repeated matches", () => {
+      const automaton = AhoCorasick.fromPatterns(["a", "aa", "aaa"]);
+
+      expect(automaton.findAll("aaa").map((match) => match.pattern)).toEqual([
+         "a",
+         "aa",
+         "a",
+         "aaa",
+         "aa",
+         "a",
+      ]);
+   });
+
+   it("should build the automaton from a trie", () => {
+      const trie = new Trie();
+      trie.insert("bad");
+      trie.insert("banned");
+      const automaton = new AhoCorasick(trie);
+
+      const matches = automaton.findAll("a bad and banned phrase");
+
+      expect(matches).toEqual([
+         { pattern: "bad", start: 2, end: 5 },
+         { pattern: "banned", start: 10, end: 16 },
+      ]);
+   });
+
+   it("should not be affected by later changes to the trie", () => {
+      const trie = new Trie();
+      trie.insert("bad");
+      trie.insert("banned");
+      const automaton = new AhoCorasick(trie);
+
+      trie.insert("bandit");
+      trie.insert("ad");
+      trie.delete("banned");
+
+      expect(automaton.findAll("bad bandit banned")).toEqual([
+         { pattern: "bad", start: 0, end: 3 },
+         { pattern: "banned", start: 11, end: 17 },
+      ]);
+      expect(new AhoCorasick(trie).findAll("bad bandit banned")).toEqual([
+         { pattern: "bad", start: 0, end: 3 },
+         { pattern: "ad", start: 1, end: 3 },
+         { pattern: "bandit", start: 4, end: 10 },
+      ]);
+   });
+
+   it("should ignore the empty pattern", () => {
+      const automaton = AhoCorasick.fromPatterns(["", "x"]);
+
+      expect(automaton.findAll("axa")).toEqual([
+         { pattern: "x", start: 1, end: 2 },
+      ]);
+   });
+
+   it("should find matches that span chunks", () => {
+      const automaton = AhoCorasick.fromPatterns(["error", "warn"]);
+
+      expect(automaton.feed("an err")).toEqual([]);
+      expect(automaton.feed("or and a wa")).toEqual([
+         { pattern: "error", start: 3, end: 8 },
+      ]);
+      expect(automaton.feed("rn")).toEqual([
+         { pattern: "warn", start: 15, end: 19 },
+      ]);
+
+      automaton.reset();
+      expect(automaton.feed("warn")).toEqual([
+         { pattern: "warn", start: 0, end: 4 },
+      ]);
+   });
+
+   it("should keep split surrogate pairs between chunks", () => {
+      const automaton = AhoCorasick.fromPatterns(["a😀b"]);
+      const text = "xa😀b";
+
+      expect(automaton.feed(text.slice(0, 3))).toEqual([]);
+      expect(automaton.feed(text.slice(3))).toEqual([
+         { pattern: "a😀b", start: 1, end: 5 },
+      ]);
+   });
+
+   it("should match a naive search on random text", () => {
+      const patterns = ["ab", "bab", "abc", "c", "cab", "bb"];
+      const automaton = AhoCorasick.fromPatterns(patterns);
+      let text = "";
+      for (let i = 0; i < 200; i++) {
+         text += "abc"[Math.floor(Math.random() * 3)];
+      }
+
+      const expected: string[] = [];
+      for (let start = 0; start < text.length; start++) {
+         for (const pattern of patterns) {
+            if (text.startsWith(pattern, start)) {
+               expected.push(`${start}:${pattern}`);
+            }
+         }
+      }
+      const actual = automaton
+         .findAll(text)
+         .map((match) => `${match.start}:${match.pattern}`);
+
+      expect(actual.sort()).toEqual(expected.sort());
+   });
+});
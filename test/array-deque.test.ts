@@ -0,0 +1,122 @@
+import { ArrayDeque } from "../src";
+import { describe, beforeEach, test, expect } from "vitest";
+
+describe("ArrayDeque", () => {
+   let deque: ArrayDeque<number>;
+
+   beforeEach(() => {
+      deque = new ArrayDeque<number>();
+   });
+
+   test("should enqueue and dequeue values in order", () => {
+      deque.enqueue(1);
+      deque.enqueue(2);
+      deque.enqueue(3);
+
+      expect(deque.size()).toBe(3);
+      expect(deque.front()).toBe(1);
+      expect(deque.back()).toBe(3);
+      expect(deque.dequeue()).toBe(1);
+      expect(deque.dequeue()).toBe(2);
+      expect(deque.size()).toBe(1);
+   });
+
+   test("should add to the front and remove from the back", () => {
+      deque.enqueueFront(1);
+      deque.enqueueFront(2);
+      deque.enqueue(3);
+
+      expect(deque.toArray()).toEqual([2, 1, 3]);
+      expect(deque.dequeueBack()).toBe(3);
+      expect(deque.dequeueBack()).toBe(1);
+      expect(deque.dequeueBack()).toBe(2);
+      expect(deque.isEmpty()).toBe(true);
+   });
+
+   test("should return undefined when removing from an empty deque", () => {
+      expect(deque.dequeue()).toBeUndefined();
+      expect(deque.dequeueBack()).toBeUndefined();
+      expect(deque.front()).toBeUndefined();
+      expect(deque.back()).toBeUndefined();
+   });
+
+   test("should access values by index", () => {
+      deque.enqueue(2);
+      deque.enqueue(3);
+      deque.enqueueFront(1);
+
+      expect(deque.at(0)).toBe(1);
+      expect(deque.at(2)).toBe(3);
+      expect(deque.at(-1)).toBe(3);
+      expect(deque.at(-3)).toBe(1);
+      expect(deque.at(3)).toBeUndefined();
+      expect(deque.at(-4)).toBeUndefined();
+   });
+
+   test("should grow while wrapped around the buffer", () => {
+      const expected: number[] = [];
+      for (let i = 0; i < 10; i++) {
+         deque.enqueue(i);
+         expected.push(i);
+      }
+      for (let i = 0; i < 5; i++) {
+         deque.dequeue();
+         expected.shift();
+      }
+      for (let i = 0; i < 100; i++) {
+         if (i % 2 === 0) {
+            deque.enqueue(i);
+            expected.push(i);
+         } else {
+            deque.enqueueFront(i);
+            expected.unshift(i);
+         }
+      }
+
+      expect(deque.size()).toBe(expected.length);
+      expect(deque.toArray()).toEqual(expected);
+      expect(deque.at(50)).toBe(expected[50]);
+   });
+
+   test("should clear the deque", () => {
+      deque.enqueue(1);
+      deque.enqueue(2);
+      deque.clear();
+
+      expect(deque.size()).toBe(0);
+      expect(deque.front()).toBeUndefined();
+      deque.enqueue(3);
+      expect(deque.toArray()).toEqual([3]);
+   });
+
+   test("should clone the deque", () => {
+      deque.enqueue(1);
+      deque.enqueue(2);
+      const clone = deque.clone();
+      clone.enqueueFront(0);
+
+      expect(clone.toArray()).toEqual([0, 1, 2]);
+      expect(deque.toArray()).toEqual([1, 2]);
+   });
+
+   test("should create a deque from an array", () => {
+      const newDeque = ArrayDeque.fromArray([1, 2, 3]);
+
+      expect(newDeque.size()).toBe(3);
+      expect(newDeque.front()).toBe(1);
+      expect(newDeque.back()).toBe(3);
+   });
+
+   test("should iterate over deque values", () => {
+      deque.enqueue(2);
+      deque.enqueue(3);
+      deque.enqueueFront(1);
+
+      const values: number[] = [];
+      for (const value of deque) {
+         values.push(value);
+      }
+
+      expect(values).toEqual([1, 2, 3]);
+   });
+});
@@ -0,0 +1,138 @@
+import { AsyncQueue } from "../src";
+import { describe, beforeEach, test, expect } from "vitest";
+
+describe("AsyncQueue", () => {
+   let queue: AsyncQueue<number>;
+
+   beforeEach(() => {
+      queue = new AsyncQueue<number>();
+   });
+
+   test("should dequeue values that are already in the queue", async () => {
+      await queue.enqueue(1);
+      await queue.enqueue(2);
+
+      expect(queue.size()).toBe(2);
+      expect(await queue.dequeueAsync()).toBe(1);
+      expect(queue.dequeue()).toBe(2);
+      expect(queue.dequeue()).toBeUndefined();
+      expect(queue.isEmpty()).toBe(true);
+   });
+
+   test("should wait for values to arrive", async () => {
+      const first = queue.dequeueAsync();
+      const second = queue.dequeueAsync();
+
+      await queue.enqueue(1);
+      await queue.enqueue(2);
+
+      expect(await first).toBe(1);
+      expect(await second).toBe(2);
+      expect(queue.isEmpty()).toBe(true);
+   });
+
+   test("should wait for room when the high water mark is reached", async () => {
+      queue = new AsyncQueue<number>({ highWaterMark: 1 });
+      const order: string[] = [];
+
+      await queue.enqueue(1);
+      const blocked = queue.enqueue(2).then(() => order.push("enqueued 2"));
+      await Promise.resolve();
+      expect(queue.size()).toBe(1);
+      expect(order).toEqual([]);
+
+      order.push(`dequeued ${queue.dequeue()}`);
+      await blocked;
+
+      expect(order).toEqual(["dequeued 1", "enqueued 2"]);
+      expect(queue.size()).toBe(1);
+      expect(queue.dequeue()).toBe(2);
+   });
+
+   test("should hand values over directly with a high water mark of 0", async () => {
+      queue = new AsyncQueue<number>({ highWaterMark: 0 });
+
+      const blocked = queue.enqueue(1);
+      expect(queue.size()).toBe(0);
+      expect(await queue.dequeueAsync()).toBe(1);
+      await blocked;
+
+      const waiting = queue.dequeueAsync();
+      await queue.enqueue(2);
+      expect(await waiting).toBe(2);
+   });
+
+   test("should reject invalid high water marks", () => {
+      expect(() => new AsyncQueue({ highWaterMark: -1 })).toThrow(RangeError);
+   });
+
+   test("should reject waiting callers when closed", async () => {
+      const waiting = queue.dequeueAsync();
+      queue.close();
+
+      await expect(waiting).rejects.toThrow("Queue is closed.");
+      expect(() => queue.enqueue(1)).toThrow("Queue is closed.");
+      await expect(queue.dequeueAsync()).rejects.toThrow("Queue is closed.");
+      expect(queue.isClosed()).toBe(true);
+
+      const bounded = new AsyncQueue<number>({ highWaterMark: 0 });
+      const blocked = bounded.enqueue(1);
+      bounded.close();
+      await expect(blocked).rejects.toThrow("Queue is closed.");
+   });
+
+   test("should still drain values after being closed", async () => {
+      await queue.enqueue(1);
+      queue.close();
+
+      expect(await queue.dequeueAsync()).toBe(1);
+      await expect(queue.dequeueAsync()).rejects.toThrow();
+   });
+
+   test("should cancel waiting with an abort signal", async () => {
+      const controller = new AbortController();
+      const waiting = queue.dequeueAsync({ signal: controller.signal });
+      controller.abort(new Error("Cancelled"));
+
+      await expect(waiting).rejects.toThrow("Cancelled");
+
+      // The cancelled consumer shouldn't take the next value
+      await queue.enqueue(1);
+      expect(queue.dequeue()).toBe(1);
+
+      await expect(
+         queue.dequeueAsync({ signal: controller.signal })
+      ).rejects.toThrow("Cancelled");
+   });
+
+   test("should cancel a blocked enqueue with an abort signal", async () => {
+      queue = new AsyncQueue<number>({ highWaterMark: 1 });
+      const controller = new AbortController();
+
+      await queue.enqueue(1);
+      const blocked = queue.enqueue(2, { signal: controller.signal });
+      controller.abort(new Error("Cancelled"));
+
+      await expect(blocked).rejects.toThrow("Cancelled");
+      expect(queue.dequeue()).toBe(1);
+      expect(queue.dequeue()).toBeUndefined();
+   });
+
+   test("should iterate with for-await until closed", async () => {
+      const values: number[] = [];
+      const consumer = (async () => {
+         for await (const value of queue) {
+            values.push(value);
+         }
+      })();
+
+      await queue.enqueue(1);
+      await queue.enqueue(2);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      await queue.enqueue(3);
+      queue.close();
+      await consumer;
+
+      expect(values).toEqual([1, 2, 3]);
+   });
+});
@@ -0,0 +1,112 @@
+import { BoundedHeap, Heap } from "../src";
+import { describe, beforeEach, it, expect } from "vitest";
+
+describe("BoundedHeap", () => {
+   let heap: BoundedHeap<number>;
+
+   beforeEach(() => {
+      heap = new BoundedHeap<number>(3);
+   });
+
+   it("should reject invalid capacities", () => {
+      expect(() => new BoundedHeap(0)).toThrow(RangeError);
+      expect(() => new BoundedHeap(1.5)).toThrow(RangeError);
+   });
+
+   it("should build a bounded heap from an array", () => {
+      const full = BoundedHeap.fromArray([3, 1, 2]);
+      const smallest = BoundedHeap.fromArray([5, 1, 9, 3], undefined, 2);
+      const largest = BoundedHeap.fromArray([5, 1, 9, 3], (a, b) => b - a, 2);
+
+      expect(full).toBeInstanceOf(BoundedHeap);
+      expect(full.capacity()).toBe(3);
+      expect(full.pushPop(0)).toBe(3);
+      expect(smallest.toArray()).toEqual([1, 3]);
+      expect(largest.toArray()).toEqual([9, 5]);
+      expect(() => BoundedHeap.fromArray([])).toThrow(RangeError);
+   });
+
+   it("should keep the top items of a large array", () => {
+      const size = 1000000;
+      const array = Array.from({ length: size }, (_, i) => (i * 7919) % size);
+
+      const top = BoundedHeap.fromArray(array, (a, b) => b - a, 3);
+
+      expect(top.toArray()).toEqual([999999, 999998, 999997]);
+   });
+
+   it("should retain the k smallest items by default", () => {
+      heap.push(5, 1, 9, 3, 7, 2);
+
+      expect(heap.size()).toBe(3);
+      expect(heap.isFull()).toBe(true);
+      expect(heap.peek()).toBe(3);
+      expect(heap.toArray()).toEqual([1, 2, 3]);
+   });
+
+   it("should retain the k largest items with an inverted comparator", () => {
+      const leaderboard = new BoundedHeap<number>(2, (a, b) => b - a);
+      leaderboard.push(5, 1, 9, 3, 7);
+
+      expect(leaderboard.peek()).toBe(7);
+      expect(leaderboard.toArray()).toEqual([9, 7]);
+   });
+
+   it("should evict the worst item with pushPop", () => {
+      expect(heap.pushPop(5)).toBeUndefined();
+      expect(heap.pushPop(1)).toBeUndefined();
+      expect(heap.pushPop(9)).toBeUndefined();
+
+      expect(heap.pushPop(10)).toBe(10);
+      expect(heap.pushPop(3)).toBe(9);
+      expect(heap.toArray()).toEqual([1, 3, 5]);
+   });
+
+   it("should always replace the worst item with replace", () => {
+      expect(heap.replace(4)).toBeUndefined();
+      heap.push(1, 2);
+
+      expect(heap.replace(10)).toBe(4);
+      expect(heap.toArray()).toEqual([1, 2, 10]);
+   });
+
+   it("should pop items from worst to best", () => {
+      heap.push(5, 1, 9, 3);
+
+      expect(heap.pop()).toBe(5);
+      expect(heap.pop()).toBe(3);
+      expect(heap.pop()).toBe(1);
+      expect(heap.pop()).toBeUndefined();
+   });
+
+   it("should clone the heap", () => {
+      heap.push(5, 1, 9);
+      const clone = heap.clone();
+      clone.push(0);
+
+      expect(clone).toBeInstanceOf(BoundedHeap);
+      expect(clone.capacity()).toBe(3);
+      expect(clone.toArray()).toEqual([0, 1, 5]);
+      expect(heap.toArray()).toEqual([1, 5, 9]);
+   });
+
+   it("should meld another heap without going over capacity", () => {
+      heap.push(5, 6);
+      const other = Heap.fromArray([4, 8, 1]);
+
+      heap.meld(other);
+
+      expect(other.isEmpty()).toBe(true);
+      expect(heap.toArray()).toEqual([1, 4, 5]);
+   });
+
+   it("should keep the top k of a large stream", () => {
+      const topK = new BoundedHeap<number>(10, (a, b) => b - a);
+      const stream = Array.from({ length: 1000 }, (_, i) => (i * 7919) % 1000);
+      topK.push(...stream);
+
+      expect(topK.toArray()).toEqual([
+         999, 998, 997, 996, 995, 994, 993, 992, 991, 990,
+      ]);
+   });
+});
@@ -0,0 +1,78 @@
+import { DelayQueue } from "../src";
+import { describe, beforeEach, test, expect } from "vitest";
+
+describe("DelayQueue", () => {
+   let now: number;
+   let queue: DelayQueue<string>;
+
+   beforeEach(() => {
+      now = 1000;
+      queue = new DelayQueue<string>({ clock: () => now });
+   });
+
+   test("should only dequeue values that are due", () => {
+      queue.enqueue("later", 500);
+      queue.enqueue("soon", 100);
+
+      expect(queue.size()).toBe(2);
+      expect(queue.dequeue()).toBeUndefined();
+
+      now = 1100;
+      expect(queue.dequeue()).toBe("soon");
+      expect(queue.dequeue()).toBeUndefined();
+
+      now = 2000;
+      expect(queue.dequeue()).toBe("later");
+      expect(queue.isEmpty()).toBe(true);
+   });
+
+   test("should enqueue values at absolute due times", () => {
+      queue.enqueueAt("b", 1200);
+      queue.enqueueAt("a", 900);
+
+      expect(queue.front()).toBe("a");
+      expect(queue.dequeue()).toBe("a");
+      expect(queue.front()).toBe("b");
+      expect(queue.dequeue()).toBeUndefined();
+   });
+
+   test("should return the next due time", () => {
+      expect(queue.nextDueTime()).toBeUndefined();
+
+      queue.enqueue("a", 300);
+      queue.enqueue("b", 200);
+
+      expect(queue.nextDueTime()).toBe(1200);
+      now = 1200;
+      queue.dequeue();
+      expect(queue.nextDueTime()).toBe(1300);
+   });
+
+   test("should dequeue all due values in order", () => {
+      queue.enqueue("c", 300);
+      queue.enqueue("a", 100);
+      queue.enqueue("b", 100);
+      queue.enqueue("d", 1000);
+
+      now = 1300;
+      expect(queue.dequeueDue()).toEqual(["a", "b", "c"]);
+      expect(queue.dequeueDue()).toEqual([]);
+      expect(queue.size()).toBe(1);
+   });
+
+   test("should clear the queue", () => {
+      queue.enqueue("a", 0);
+      queue.clear();
+
+      expect(queue.isEmpty()).toBe(true);
+      expect(queue.dequeue()).toBeUndefined();
+   });
+
+   test("should use the system clock by default", () => {
+      const realQueue = new DelayQueue<string>();
+      realQueue.enqueue("now", 0);
+      realQueue.enqueue("later", 60000);
+
+      expect(realQueue.dequeueDue()).toEqual(["now"]);
+   });
+});
@@ -42,4 +42,84 @@ describe("Deque", () => {
       expect(deque.dequeueBack()).toBe(3);
       expect(deque.isEmpty()).toBe(true);
    });
+
+   test("should clone into a deque", () => {
+      deque.enqueue(1);
+      deque.enqueue(2);
+      const clone = deque.clone();
+      clone.enqueueFront(0);
+
+      expect(clone).toBeInstanceOf(Deque);
+      expect(clone.toArray()).toEqual([0, 1, 2]);
+      expect(deque.toArray()).toEqual([1, 2]);
+   });
+
+   test("should create a deque from an array", () => {
+      const newDeque = Deque.fromArray([1, 2, 3]);
+
+      expect(newDeque).toBeInstanceOf(Deque);
+      expect(newDeque.dequeueBack()).toBe(3);
+      expect(Deque.fromArray([1, 2, 3], { maxLength: 2 }).toArray()).toEqual([
+         2, 3,
+      ]);
+   });
+
+   test("should access values by index", () => {
+      deque = Deque.fromArray([1, 2, 3, 4, 5]);
+
+      expect(deque.at(0)).toBe(1);
+      expect(deque.at(3)).toBe(4);
+      expect(deque.at(4)).toBe(5);
+      expect(deque.at(-2)).toBe(4);
+      expect(deque.at(5)).toBeUndefined();
+      expect(deque.at(-6)).toBeUndefined();
+   });
+
+   test("should rotate values", () => {
+      deque = Deque.fromArray([1, 2, 3, 4, 5]);
+
+      deque.rotate();
+      expect(deque.toArray()).toEqual([5, 1, 2, 3, 4]);
+
+      deque.rotate(-2);
+      expect(deque.toArray()).toEqual([2, 3, 4, 5, 1]);
+
+      deque.rotate(4);
+      expect(deque.toArray()).toEqual([3, 4, 5, 1, 2]);
+
+      deque.rotate(10);
+      expect(deque.toArray()).toEqual([3, 4, 5, 1, 2]);
+      expect(deque.size()).toBe(5);
+   });
+
+   test("should reverse values", () => {
+      deque = Deque.fromArray([1, 2, 3, 4, 5]);
+      deque.reverse();
+      expect(deque.toArray()).toEqual([5, 4, 3, 2, 1]);
+
+      deque = Deque.fromArray([1, 2]);
+      deque.reverse();
+      expect(deque.toArray()).toEqual([2, 1]);
+
+      deque.clear();
+      deque.reverse();
+      expect(deque.toArray()).toEqual([]);
+   });
+
+   test("should drop values from the opposite end when full", () => {
+      deque = new Deque<number>({ maxLength: 3 });
+      deque.enqueue(1);
+      deque.enqueue(2);
+      deque.enqueue(3);
+      deque.enqueue(4);
+
+      expect(deque.maxLength()).toBe(3);
+      expect(deque.toArray()).toEqual([2, 3, 4]);
+
+      deque.enqueueFront(0);
+      expect(deque.toArray()).toEqual([0, 2, 3]);
+      expect(deque.clone().maxLength()).toBe(3);
+
+      expect(() => new Deque({ maxLength: -1 })).toThrow(RangeError);
+   });
 });
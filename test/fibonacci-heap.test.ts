@@ -0,0 +1,52 @@
+import { FibonacciHeap } from "../src";
+import { describe, beforeEach, it, expect } from "vitest";
+
+describe("FibonacciHeap", () => {
+   let heap: FibonacciHeap<number>;
+
+   beforeEach(() => {
+      heap = new FibonacciHeap<number>();
+   });
+
+   it("should keep new nodes in the root list until a pop", () => {
+      const nodes = [5, 3, 8].map((value) => heap.insert(value));
+
+      expect(nodes.every((node) => node.parent === undefined)).toBe(true);
+      expect(nodes.map((node) => node.degree)).toEqual([0, 0, 0]);
+   });
+
+   it("should consolidate the roots by degree on pop", () => {
+      const nodes = [1, 2, 3, 4, 5, 6, 7, 8].map((value) => heap.insert(value));
+
+      heap.pop();
+
+      const roots = nodes.slice(1).filter((node) => node.parent === undefined);
+      expect(roots.map((node) => node.degree).sort()).toEqual([0, 1, 2]);
+      expect(heap.peek()).toBe(2);
+   });
+
+   it("should mark a parent that loses a child and cut it on the next loss", () => {
+      const nodes = [1, 2, 3, 4, 5, 6, 7, 8, 9].map((value) =>
+         heap.insert(value)
+      );
+      heap.pop();
+
+      // After the pop, the 8 nodes form a single binomial tree
+      const parent = nodes.find(
+         (node) => node.parent !== undefined && node.degree === 2
+      )!;
+      const [first, second] = [parent.child!, parent.child!.right];
+
+      heap.update(first, 0);
+      expect(first.parent).toBeUndefined();
+      expect(parent.mark).toBe(true);
+      expect(parent.degree).toBe(1);
+
+      heap.update(second, -1);
+      expect(parent.parent).toBeUndefined();
+      expect(parent.mark).toBe(false);
+      expect(heap.pop()).toBe(-1);
+      expect(heap.pop()).toBe(0);
+      expect(heap.size()).toBe(6);
+   });
+});
@@ -126,4 +126,50 @@ describe("Heap", () => {
       expect(heap.peek()).toBe(-20);
       expect(heap.toArray()).toEqual([-20, -15, -10, -5]);
    });
+
+   it("should build a valid heap from an array in linear time", () => {
+      const array = Array.from({ length: 500 }, (_, i) => (i * 7919) % 500);
+      let comparisons = 0;
+      const builtHeap = Heap.fromArray(array, (a, b) => {
+         comparisons++;
+         return a - b;
+      });
+
+      expect(comparisons).toBeLessThanOrEqual(2 * array.length);
+      expect(builtHeap.toArray()).toEqual([...array].sort((a, b) => a - b));
+      expect(array[0]).toBe(0); // Ensure the given array is unchanged
+   });
+
+   it("should meld another heap into the heap", () => {
+      heap.push(5, 10, 3);
+      const other = Heap.fromArray([7, 1, 8]);
+
+      heap.meld(other);
+
+      expect(heap.size()).toBe(6);
+      expect(other.isEmpty()).toBe(true);
+      expect(heap.toArray()).toEqual([1, 3, 5, 7, 8, 10]);
+   });
+
+   it("should merge two heaps into a new heap", () => {
+      const a = Heap.fromArray([5, 10, 3], (a, b) => b - a);
+      const b = Heap.fromArray([7, 1, 8], (a, b) => b - a);
+
+      const merged = Heap.merge(a, b);
+
+      expect(merged.toArray()).toEqual([10, 8, 7, 5, 3, 1]);
+      expect(a.size()).toBe(3);
+      expect(b.size()).toBe(3);
+   });
+
+   it("should iterate over the heap without sorting", () => {
+      heap.push(5, 10, 3, 8);
+
+      const values = [...heap];
+
+      expect(values[0]).toBe(3);
+      expect([...values].sort((a, b) => a - b)).toEqual([3, 5, 8, 10]);
+      expect([...heap.values()]).toEqual(values);
+      expect(heap.size()).toBe(4);
+   });
 });
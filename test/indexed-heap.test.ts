@@ -0,0 +1,161 @@
+import { Heap, IndexedHeap } from "../src";
+import { describe, beforeEach, it, expect } from "vitest";
+
+type Vertex = { id: string; distance: number };
+
+describe("IndexedHeap", () => {
+   let heap: IndexedHeap<number>;
+
+   beforeEach(() => {
+      heap = new IndexedHeap<number>();
+   });
+
+   it("should behave like a regular heap", () => {
+      heap.push(5, 10, 3, 8);
+
+      expect(heap.size()).toBe(4);
+      expect(heap.peek()).toBe(3);
+      expect(heap.pop()).toBe(3);
+      expect(heap.toArray()).toEqual([5, 8, 10]);
+      expect(heap.size()).toBe(3);
+   });
+
+   it("should reject duplicate items", () => {
+      heap.push(1);
+      expect(() => heap.push(1)).toThrow(Error);
+      expect(heap.size()).toBe(1);
+   });
+
+   it("should check if an item is in the heap", () => {
+      heap.push(5, 10, 3);
+
+      expect(heap.has(10)).toBe(true);
+      expect(heap.has(4)).toBe(false);
+
+      heap.pop();
+      expect(heap.has(3)).toBe(false);
+   });
+
+   it("should remove arbitrary items", () => {
+      heap.push(5, 10, 3, 8, 1, 7);
+
+      expect(heap.remove(8)).toBe(true);
+      expect(heap.remove(8)).toBe(false);
+      expect(heap.remove(1)).toBe(true);
+      expect(heap.has(8)).toBe(false);
+      expect(heap.toArray()).toEqual([3, 5, 7, 10]);
+   });
+
+   it("should update items by replacing them", () => {
+      heap.push(5, 10, 3);
+
+      expect(heap.update(10, 1)).toBe(true);
+      expect(heap.peek()).toBe(1);
+      expect(heap.has(10)).toBe(false);
+
+      expect(heap.update(1, 20)).toBe(true);
+      expect(heap.toArray()).toEqual([3, 5, 20]);
+
+      expect(heap.update(42, 0)).toBe(false);
+      expect(() => heap.update(3, 5)).toThrow(Error);
+   });
+
+   it("should update items that were mutated in place", () => {
+      const vertexHeap = new IndexedHeap<Vertex>(
+         (a, b) => a.distance - b.distance
+      );
+      const a = { id: "a", distance: 5 };
+      const b = { id: "b", distance: 10 };
+      const c = { id: "c", distance: 3 };
+      vertexHeap.push(a, b, c);
+
+      b.distance = 1;
+      vertexHeap.update(b);
+      expect(vertexHeap.peek()).toBe(b);
+
+      b.distance = 7;
+      vertexHeap.update(b);
+      expect(vertexHeap.toArray().map((v) => v.id)).toEqual(["c", "a", "b"]);
+   });
+
+   it("should clone the heap independently", () => {
+      heap.push(5, 10, 3);
+      const clone = heap.clone();
+
+      clone.remove(3);
+      expect(clone).toBeInstanceOf(IndexedHeap);
+      expect(clone.has(3)).toBe(false);
+      expect(heap.has(3)).toBe(true);
+      expect(heap.peek()).toBe(3);
+   });
+
+   it("should clear the heap", () => {
+      heap.push(5, 10, 3);
+      heap.clear();
+
+      expect(heap.isEmpty()).toBe(true);
+      expect(heap.has(5)).toBe(false);
+      heap.push(5);
+      expect(heap.peek()).toBe(5);
+   });
+
+   it("should build a heap from an array", () => {
+      const builtHeap = IndexedHeap.fromArray([5, 10, 3, 8]);
+
+      expect(builtHeap.peek()).toBe(3);
+      expect(builtHeap.has(8)).toBe(true);
+      builtHeap.update(10, 0);
+      expect(builtHeap.toArray()).toEqual([0, 3, 5, 8]);
+
+      expect(() => IndexedHeap.fromArray([1, 1])).toThrow(Error);
+   });
+
+   it("should keep the heap property after many random operations", () => {
+      const maxHeap = new IndexedHeap<number>((a, b) => b - a);
+      const values = new Set<number>();
+      for (let i = 0; i < 200; i++) {
+         values.add(i);
+         maxHeap.push(i);
+      }
+
+      for (let i = 0; i < 200; i += 3) {
+         maxHeap.remove(i);
+         values.delete(i);
+      }
+
+      for (let i = 1; i < 200; i += 3) {
+         maxHeap.update(i, i + 1000);
+         values.delete(i);
+         values.add(i + 1000);
+      }
+
+      expect(maxHeap.toArray()).toEqual([...values].sort((a, b) => b - a));
+   });
+
+   it("should meld another heap into the heap", () => {
+      heap.push(5, 10, 3);
+      const other = IndexedHeap.fromArray([7, 1, 8]);
+
+      heap.meld(other);
+
+      expect(heap.has(7)).toBe(true);
+      expect(other.has(7)).toBe(false);
+      heap.update(10, 0);
+      expect(heap.toArray()).toEqual([0, 1, 3, 5, 7, 8]);
+
+      expect(() => heap.meld(IndexedHeap.fromArray([2, 3]))).toThrow(Error);
+      expect(heap.has(2)).toBe(false);
+   });
+
+   it("should reject duplicates inside the melded heap", () => {
+      heap.push(5);
+      const other = Heap.fromArray([1, 1, 2]);
+
+      expect(() => heap.meld(other)).toThrowError(
+         "Item already exists in the heap."
+      );
+      expect(heap.size()).toBe(1);
+      expect(heap.has(1)).toBe(false);
+      expect(other.size()).toBe(3);
+   });
+});
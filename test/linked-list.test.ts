@@ -35,18 +35,20 @@ describe("LinkedList", () => {
 
    it("should only remove nodes that exists in the list", () => {
       let randomNode = new ListNode(2);
-      let deleted = list.deleteNode(randomNode);
+      expect(() => list.deleteNode(randomNode)).toThrowError(
+         "Node does not belong to this list."
+      );
       expect(list.size()).toBe(3);
-      expect(deleted).toBe(false);
 
       let head = list.head()!;
-      deleted = list.deleteNode(head);
+      let deleted = list.deleteNode(head);
       expect(list.size()).toBe(2);
       expect(deleted).toBe(true);
 
-      deleted = list.deleteNode(head);
+      expect(() => list.deleteNode(head)).toThrowError(
+         "Node has already been deleted."
+      );
       expect(list.size()).toBe(2);
-      expect(deleted).toBe(false);
    });
 
    it("should remove the tail node correctly", () => {
@@ -131,6 +133,514 @@ describe("LinkedList", () => {
    });
 });
 
+describe("LinkedList - Node operations", () => {
+   const valuesOf = (list: LinkedList<number>) =>
+      list.toArray().map((node) => node.value);
+
+   const expectConsistent = (list: LinkedList<number>) => {
+      const nodes = list.toArray();
+      expect(list.size()).toBe(nodes.length);
+      expect(list.head()).toBe(nodes[0]);
+      expect(list.tail()).toBe(nodes[nodes.length - 1]);
+      nodes.forEach((node, i) => {
+         expect(node.prev()).toBe(nodes[i - 1]);
+         expect(node.next()).toBe(nodes[i + 1]);
+      });
+   };
+
+   it("should concatenate another list by moving its nodes", () => {
+      const a = LinkedList.fromArray([1, 2]);
+      const b = LinkedList.fromArray([3, 4]);
+      const node = b.head()!;
+
+      a.concat(b);
+
+      expect(valuesOf(a)).toEqual([1, 2, 3, 4]);
+      expect(a.find(3)).toBe(node);
+      expect(b.isEmpty()).toBe(true);
+      expect(b.head()).toBe(undefined);
+      expectConsistent(a);
+      expectConsistent(b);
+
+      const empty = new LinkedList<number>();
+      empty.concat(a);
+      expect(valuesOf(empty)).toEqual([1, 2, 3, 4]);
+      a.concat(new LinkedList());
+      expect(a.size()).toBe(0);
+
+      expect(() => empty.concat(empty)).toThrow(Error);
+   });
+
+   it("should split the list at a node", () => {
+      const list = LinkedList.fromArray([1, 2, 3, 4, 5]);
+
+      const rest = list.splitAt(list.find(3)!);
+
+      expect(valuesOf(list)).toEqual([1, 2]);
+      expect(valuesOf(rest)).toEqual([3, 4, 5]);
+      expectConsistent(list);
+      expectConsistent(rest);
+
+      const all = list.splitAt(list.head()!);
+      expect(valuesOf(all)).toEqual([1, 2]);
+      expect(list.isEmpty()).toBe(true);
+      expectConsistent(list);
+   });
+
+   it("should move a run of nodes to another list", () => {
+      const source = LinkedList.fromArray([1, 2, 3, 4, 5]);
+      const target = LinkedList.fromArray([10, 20]);
+
+      source.spliceRange(
+         source.find(2)!,
+         source.find(4)!,
+         target,
+         target.head()!
+      );
+
+      expect(valuesOf(source)).toEqual([1, 5]);
+      expect(valuesOf(target)).toEqual([10, 2, 3, 4, 20]);
+      expectConsistent(source);
+      expectConsistent(target);
+
+      source.spliceRange(source.head()!, source.tail()!, target);
+      expect(valuesOf(source)).toEqual([]);
+      expect(valuesOf(target)).toEqual([1, 5, 10, 2, 3, 4, 20]);
+      expectConsistent(source);
+      expectConsistent(target);
+   });
+
+   it("should move a run of nodes within the same list", () => {
+      const list = LinkedList.fromArray([1, 2, 3, 4, 5]);
+
+      list.spliceRange(list.head()!, list.find(2)!, list, list.tail()!);
+      expect(valuesOf(list)).toEqual([3, 4, 5, 1, 2]);
+      expectConsistent(list);
+
+      list.spliceRange(list.find(5)!, list.find(5)!, list);
+      expect(valuesOf(list)).toEqual([5, 3, 4, 1, 2]);
+      expectConsistent(list);
+   });
+
+   it("should reject invalid runs of nodes", () => {
+      const list = LinkedList.fromArray([1, 2, 3, 4]);
+      const other = new LinkedList<number>();
+
+      expect(() =>
+         list.spliceRange(list.find(3)!, list.find(2)!, other)
+      ).toThrow(Error);
+      expect(() =>
+         list.spliceRange(list.head()!, list.find(3)!, list, list.find(2)!)
+      ).toThrow(Error);
+      expect(valuesOf(list)).toEqual([1, 2, 3, 4]);
+   });
+
+   it("should reverse the list in place", () => {
+      const list = LinkedList.fromArray([1, 2, 3, 4]);
+      const head = list.head();
+
+      list.reverse();
+
+      expect(valuesOf(list)).toEqual([4, 3, 2, 1]);
+      expect(list.tail()).toBe(head);
+      expectConsistent(list);
+
+      const empty = new LinkedList<number>();
+      empty.reverse();
+      expectConsistent(empty);
+   });
+
+   it("should sort the nodes in place", () => {
+      const list = LinkedList.fromArray([5, 3, 8, 1, 9, 2, 7]);
+      const node = list.find(8)!;
+
+      list.sort();
+
+      expect(valuesOf(list)).toEqual([1, 2, 3, 5, 7, 8, 9]);
+      expect(list.find(8)).toBe(node);
+      expectConsistent(list);
+
+      list.sort((a, b) => b - a);
+      expect(valuesOf(list)).toEqual([9, 8, 7, 5, 3, 2, 1]);
+      expectConsistent(list);
+   });
+
+   it("should sort stably", () => {
+      const list = LinkedList.fromArray([3, 1, 2, 1, 3, 2]);
+      const ones = [list.find(1)!, list.at(3)!];
+
+      list.sort((a, b) => a - b);
+
+      expect(list.at(0)).toBe(ones[0]);
+      expect(list.at(1)).toBe(ones[1]);
+      expect(list.toValueArray()).toEqual([1, 1, 2, 2, 3, 3]);
+   });
+
+   it("should sort empty and single-node lists", () => {
+      const empty = new LinkedList<number>();
+      const single = LinkedList.fromArray([1]);
+
+      empty.sort();
+      single.sort();
+
+      expect(empty.head()).toBe(undefined);
+      expect(valuesOf(single)).toEqual([1]);
+      expectConsistent(single);
+   });
+});
+
+describe("LinkedList - Ownership", () => {
+   it("should know which list a node belongs to", () => {
+      const list = LinkedList.fromArray([1, 2]);
+      const node = list.head()!;
+
+      expect(node.list()).toBe(list);
+      expect(new ListNode(1).list()).toBe(undefined);
+
+      list.deleteNode(node);
+      expect(node.list()).toBe(undefined);
+   });
+
+   it("should reject nodes from another list", () => {
+      const a = LinkedList.fromArray([1, 2, 3]);
+      const b = LinkedList.fromArray([4, 5, 6]);
+
+      expect(() => a.deleteNode(b.head()!)).toThrow(
+         "Node does not belong to this list."
+      );
+      expect(() => a.deleteNode(b.tail()!)).toThrow(Error);
+      expect(() => a.insertAfter(b.head()!, 0)).toThrow(Error);
+      expect(() => a.insertBefore(b.tail()!, 0)).toThrow(Error);
+      expect(() => a.splitAt(b.head()!)).toThrow(Error);
+      expect(() =>
+         a.spliceRange(a.head()!, a.head()!, b, a.tail()!)
+      ).toThrow(Error);
+
+      expect(a.size()).toBe(3);
+      expect(b.size()).toBe(3);
+      a.validate();
+      b.validate();
+   });
+
+   it("should reject deleted nodes", () => {
+      const list = LinkedList.fromArray([1, 2, 3]);
+      const node = list.find(2)!;
+      list.deleteNode(node);
+
+      expect(() => list.deleteNode(node)).toThrow(
+         "Node has already been deleted."
+      );
+      expect(() => list.insertAfter(node, 0)).toThrow(
+         "Node has already been deleted."
+      );
+      expect(() => list.insertBefore(node, 0)).toThrow(Error);
+      expect(list.size()).toBe(2);
+   });
+
+   it("should not accept nodes from before the list was cleared", () => {
+      const list = LinkedList.fromArray([1, 2, 3]);
+      const node = list.head()!;
+      list.clear();
+      list.append(4);
+
+      expect(node.list()).toBe(undefined);
+      expect(() => list.deleteNode(node)).toThrow(
+         "Node does not belong to this list."
+      );
+      expect(() => list.insertAfter(node, 0)).toThrow(Error);
+      expect(list.size()).toBe(1);
+   });
+
+   it("should transfer ownership when moving nodes", () => {
+      const a = LinkedList.fromArray([1, 2]);
+      const b = LinkedList.fromArray([3, 4]);
+      const movedByConcat = b.head()!;
+
+      a.concat(b);
+      expect(movedByConcat.list()).toBe(a);
+      b.append(5);
+      expect(b.head()!.list()).toBe(b);
+      expect(() => b.deleteNode(movedByConcat)).toThrow(Error);
+
+      const rest = a.splitAt(a.find(2)!);
+      expect(movedByConcat.list()).toBe(rest);
+      expect(a.head()!.list()).toBe(a);
+      expect(rest.deleteNode(movedByConcat)).toBe(true);
+
+      a.clear();
+      expect(rest.head()!.list()).toBe(rest);
+   });
+
+   it("should validate the list after each mutation in safe mode", () => {
+      const list = LinkedList.fromArray([1, 2, 3], { safeMode: true });
+      const node = list.find(2)!;
+
+      list.insertAfter(node, 4);
+      list.deleteNode(list.head()!);
+      list.reverse();
+      expect(list.clone().toArray().map((v) => v.value)).toEqual([3, 4, 2]);
+
+      // Corrupt the list on purpose
+      node.setPrev(undefined);
+      expect(() => list.append(5)).toThrow("Invalid list");
+   });
+
+   it("should detect corrupted lists", () => {
+      const list = LinkedList.fromArray([1, 2, 3]);
+      list.validate();
+
+      list.find(2)!.setPrev(undefined);
+      expect(() => list.validate()).toThrow("not symmetric");
+   });
+});
+
+describe("LinkedList - Value helpers", () => {
+   let list: LinkedList<number>;
+
+   beforeEach(() => {
+      list = LinkedList.fromArray([1, 2, 3, 4, 5]);
+   });
+
+   it("should iterate over values", () => {
+      expect([...list.values()]).toEqual([1, 2, 3, 4, 5]);
+      expect([...list.reverseValues()]).toEqual([5, 4, 3, 2, 1]);
+      expect(list.toValueArray()).toEqual([1, 2, 3, 4, 5]);
+      expect([...list.nodes()]).toEqual(list.toArray());
+   });
+
+   it("should find the index of a value", () => {
+      expect(list.indexOf(1)).toBe(0);
+      expect(list.indexOf(4)).toBe(3);
+      expect(list.indexOf(10)).toBe(-1);
+   });
+
+   it("should return nodes by index", () => {
+      expect(list.at(0)).toBe(list.head());
+      expect(list.at(1)?.value).toBe(2);
+      expect(list.at(3)?.value).toBe(4);
+      expect(list.at(4)).toBe(list.tail());
+      expect(list.at(-2)?.value).toBe(4);
+      expect(list.at(5)).toBe(undefined);
+      expect(list.at(-6)).toBe(undefined);
+   });
+
+   it("should find nodes with a predicate", () => {
+      const node = list.findNode((value) => value > 2);
+
+      expect(node?.value).toBe(3);
+      expect(node?.list()).toBe(list);
+      expect(list.findNode((_, __, index) => index === 4)).toBe(list.tail());
+      expect(list.findNode((value) => value > 10)).toBe(undefined);
+   });
+
+   it("should remove nodes with a predicate", () => {
+      const head = list.head()!;
+
+      expect(list.removeWhere((value) => value % 2 === 0)).toBe(2);
+      expect(list.toValueArray()).toEqual([1, 3, 5]);
+      expect(list.head()).toBe(head);
+
+      expect(list.removeWhere(() => true)).toBe(3);
+      expect(list.isEmpty()).toBe(true);
+      expect(list.tail()).toBe(undefined);
+   });
+
+   it("should call a function for each value", () => {
+      const calls: [number, number][] = [];
+      list.forEach((value, node, index) => {
+         expect(node.value).toBe(value);
+         calls.push([value, index]);
+      });
+
+      expect(calls).toEqual([
+         [1, 0],
+         [2, 1],
+         [3, 2],
+         [4, 3],
+         [5, 4],
+      ]);
+   });
+
+   it("should map and filter into new lists", () => {
+      const mapped = list.map((value) => `#${value}`);
+      const filtered = list.filter((value) => value > 3);
+
+      expect(mapped.toValueArray()).toEqual(["#1", "#2", "#3", "#4", "#5"]);
+      expect(filtered.toValueArray()).toEqual([4, 5]);
+      expect(filtered.head()).not.toBe(list.find(4));
+      expect(list.size()).toBe(5);
+   });
+});
+
+describe("LinkedList - Cursor", () => {
+   let list: LinkedList<string>;
+
+   beforeEach(() => {
+      list = LinkedList.fromArray(["a", "b", "c"]);
+   });
+
+   it("should move around the list in a circle", () => {
+      const cursor = list.cursor();
+
+      expect(cursor.node()).toBe(undefined);
+      expect(cursor.next()?.value).toBe("a");
+      expect(cursor.next()?.value).toBe("b");
+      expect(cursor.next()?.value).toBe("c");
+      expect(cursor.next()?.value).toBe("a");
+      expect(cursor.prev()?.value).toBe("c");
+      expect(cursor.value()).toBe("c");
+      expect(cursor.list()).toBe(list);
+
+      expect(list.cursor().prev()).toBe(list.tail());
+      expect(new LinkedList<string>().cursor().next()).toBe(undefined);
+   });
+
+   it("should start at a given node", () => {
+      const cursor = list.cursor(list.find("b")!);
+
+      expect(cursor.value()).toBe("b");
+      expect(cursor.next()?.value).toBe("c");
+      expect(() => list.cursor(new LinkedList<string>().append("x"))).toThrowError(
+         "Node does not belong to this list."
+      );
+   });
+
+   it("should insert before the node under the cursor", () => {
+      const cursor = list.cursor(list.head()!);
+
+      const node = cursor.insertHere("z");
+
+      expect(list.toValueArray()).toEqual(["z", "a", "b", "c"]);
+      expect(cursor.value()).toBe("a");
+      expect(node.value).toBe("z");
+
+      const empty = new LinkedList<string>();
+      const emptyCursor = empty.cursor();
+      emptyCursor.insertHere("x");
+      expect(emptyCursor.value()).toBe("x");
+      expect(empty.toValueArray()).toEqual(["x"]);
+   });
+
+   it("should remove the node under the cursor", () => {
+      const cursor = list.cursor(list.find("b")!);
+
+      expect(cursor.removeHere()).toBe("b");
+      expect(cursor.node()).toBe(undefined);
+      expect(cursor.removeHere()).toBe(undefined);
+      expect(list.toValueArray()).toEqual(["a", "c"]);
+      expect(cursor.next()?.value).toBe("c");
+
+      cursor.removeHere();
+      expect(cursor.next()?.value).toBe("a");
+      cursor.removeHere();
+      expect(cursor.next()).toBe(undefined);
+      expect(list.isEmpty()).toBe(true);
+   });
+
+   it("should recover when the node under the cursor is deleted", () => {
+      const cursor = list.cursor(list.find("b")!);
+      list.deleteNode(list.find("b")!);
+      list.deleteNode(list.find("c")!);
+
+      expect(cursor.node()).toBe(undefined);
+      expect(cursor.next()?.value).toBe("a");
+
+      cursor.rotateTo(list.head()!);
+      list.deleteNode(list.head()!);
+      expect(cursor.prev()).toBe(undefined);
+   });
+
+   it("should move backwards from a deleted node", () => {
+      const cursor = list.cursor(list.find("b")!);
+      list.deleteNode(list.find("b")!);
+
+      expect(cursor.prev()?.value).toBe("a");
+   });
+
+   it("should insert where a deleted node used to be", () => {
+      const cursor = list.cursor(list.find("b")!);
+      cursor.removeHere();
+
+      cursor.insertHere("x");
+
+      expect(list.toValueArray()).toEqual(["a", "x", "c"]);
+      expect(cursor.value()).toBe("x");
+   });
+
+   it("should start over if the list is cleared", () => {
+      const cursor = list.cursor(list.find("b")!);
+      list.clear();
+      list.append("d");
+
+      expect(cursor.node()).toBe(undefined);
+      expect(cursor.next()?.value).toBe("d");
+   });
+
+   it("should rotate to a node", () => {
+      const cursor = list.cursor();
+      const node = list.find("c")!;
+
+      cursor.rotateTo(node);
+
+      expect(cursor.node()).toBe(node);
+      expect(cursor.next()?.value).toBe("a");
+      list.deleteNode(node);
+      expect(() => cursor.rotateTo(node)).toThrowError(
+         "Node has already been deleted."
+      );
+   });
+
+   it("should hide the links of deleted nodes", () => {
+      const node = list.find("b")!;
+      list.deleteNode(node);
+
+      expect(node.next()).toBe(undefined);
+      expect(node.prev()).toBe(undefined);
+   });
+
+   it("should follow the neighbours of a deleted node as they're deleted", () => {
+      list.append("d");
+      const cursor = list.cursor(list.find("b")!);
+      cursor.removeHere();
+      list.deleteNode(list.find("c")!);
+      list.deleteNode(list.find("a")!);
+
+      expect(cursor.next()?.value).toBe("d");
+
+      cursor.removeHere();
+      list.append("e");
+      expect(cursor.prev()?.value).toBe("e");
+   });
+
+   it("should not keep deleted nodes reachable from each other", () => {
+      const first = list.head()!;
+      const cursor = list.cursor(first);
+      while (!list.isEmpty()) list.deleteNode(list.head()!);
+
+      expect(first.next()).toBe(undefined);
+      expect(first.cursors()).toEqual([]);
+      expect(cursor.next()).toBe(undefined);
+   });
+
+   it("should stop tracking a released cursor", () => {
+      const node = list.find("b")!;
+      const cursor = list.cursor(node);
+      expect(node.cursors()).toEqual([cursor]);
+
+      cursor.release();
+      expect(node.cursors()).toEqual([]);
+      expect(cursor.node()).toBe(undefined);
+      expect(cursor.next()?.value).toBe("a");
+
+      cursor.removeHere();
+      const [prev, next] = [list.head()!, list.tail()!];
+      cursor.release();
+      expect(prev.cursors()).toEqual([]);
+      expect(next.cursors()).toEqual([]);
+      expect(cursor.prev()?.value).toBe("c");
+   });
+});
+
 describe("LinkedList - Empty", () => {
    let list: LinkedList<number>;
 
@@ -0,0 +1,126 @@
+import { MinMaxHeap } from "../src";
+import { describe, beforeEach, it, expect } from "vitest";
+
+describe("MinMaxHeap", () => {
+   let heap: MinMaxHeap<number>;
+
+   beforeEach(() => {
+      heap = new MinMaxHeap<number>();
+   });
+
+   it("should initialize an empty heap", () => {
+      expect(heap.size()).toBe(0);
+      expect(heap.isEmpty()).toBe(true);
+      expect(heap.peekMin()).toBeUndefined();
+      expect(heap.peekMax()).toBeUndefined();
+      expect(heap.popMin()).toBeUndefined();
+      expect(heap.popMax()).toBeUndefined();
+   });
+
+   it("should peek both ends of the heap", () => {
+      heap.push(5, 10, 3, 8, 1);
+
+      expect(heap.size()).toBe(5);
+      expect(heap.peekMin()).toBe(1);
+      expect(heap.peekMax()).toBe(10);
+   });
+
+   it("should handle a single element", () => {
+      heap.push(42);
+
+      expect(heap.peekMin()).toBe(42);
+      expect(heap.peekMax()).toBe(42);
+      expect(heap.popMax()).toBe(42);
+      expect(heap.isEmpty()).toBe(true);
+   });
+
+   it("should pop from both ends of the heap", () => {
+      heap.push(5, 10, 3, 8, 1, 7);
+
+      expect(heap.popMin()).toBe(1);
+      expect(heap.popMax()).toBe(10);
+      expect(heap.popMax()).toBe(8);
+      expect(heap.popMin()).toBe(3);
+      expect(heap.toArray()).toEqual([5, 7]);
+   });
+
+   it("should support custom comparators", () => {
+      const jobs = new MinMaxHeap<{ name: string; priority: number }>(
+         (a, b) => a.priority - b.priority
+      );
+      jobs.push(
+         { name: "a", priority: 2 },
+         { name: "b", priority: 9 },
+         { name: "c", priority: 4 }
+      );
+
+      expect(jobs.peekMin()?.name).toBe("a");
+      expect(jobs.peekMax()?.name).toBe("b");
+   });
+
+   it("should build a heap from an array", () => {
+      const array = [5, 10, 3, 8, 1, 7, 2, 9];
+      const builtHeap = MinMaxHeap.fromArray(array);
+
+      expect(builtHeap.size()).toBe(array.length);
+      expect(builtHeap.peekMin()).toBe(1);
+      expect(builtHeap.peekMax()).toBe(10);
+      expect(builtHeap.toArray()).toEqual([1, 2, 3, 5, 7, 8, 9, 10]);
+   });
+
+   it("should clone the heap", () => {
+      heap.push(5, 10, 3);
+      const clone = heap.clone();
+      clone.popMax();
+
+      expect(clone.peekMax()).toBe(5);
+      expect(heap.peekMax()).toBe(10);
+   });
+
+   it("should clear the heap", () => {
+      heap.push(5, 10, 3);
+      heap.clear();
+
+      expect(heap.isEmpty()).toBe(true);
+      expect(heap.peekMax()).toBeUndefined();
+   });
+
+   it("should iterate over the heap", () => {
+      heap.push(5, 10, 3, 8);
+
+      expect([...heap].sort((a, b) => a - b)).toEqual([3, 5, 8, 10]);
+      expect([...heap.values()].length).toBe(4);
+   });
+
+   it("should stay consistent after many random operations", () => {
+      let seed = 1;
+      const random = () => {
+         seed = (seed * 16807) % 2147483647;
+         return seed;
+      };
+
+      const expected: number[] = [];
+      const randomHeap = MinMaxHeap.fromArray(
+         Array.from({ length: 50 }, () => {
+            const value = random() % 1000;
+            expected.push(value);
+            return value;
+         })
+      );
+
+      for (let i = 0; i < 500; i++) {
+         const operation = random() % 3;
+         expected.sort((a, b) => a - b);
+         if (operation === 0) {
+            const value = random() % 1000;
+            randomHeap.push(value);
+            expected.push(value);
+         } else if (operation === 1) {
+            expect(randomHeap.popMin()).toBe(expected.shift());
+         } else {
+            expect(randomHeap.popMax()).toBe(expected.pop());
+         }
+         expect(randomHeap.size()).toBe(expected.length);
+      }
+   });
+});
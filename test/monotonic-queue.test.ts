@@ -0,0 +1,101 @@
+import { MonotonicQueue } from "../src";
+import { describe, beforeEach, test, expect } from "vitest";
+
+describe("MonotonicQueue", () => {
+   let queue: MonotonicQueue<number>;
+
+   beforeEach(() => {
+      queue = new MonotonicQueue<number>();
+   });
+
+   test("should return undefined for an empty window", () => {
+      expect(queue.min()).toBeUndefined();
+      expect(queue.max()).toBeUndefined();
+      expect(queue.shift()).toBeUndefined();
+      expect(queue.isEmpty()).toBe(true);
+   });
+
+   test("should track the min and max of the window", () => {
+      queue.push(3);
+      queue.push(1);
+      queue.push(4);
+      queue.push(1);
+      queue.push(5);
+
+      expect(queue.size()).toBe(5);
+      expect(queue.min()).toBe(1);
+      expect(queue.max()).toBe(5);
+      expect(queue.toArray()).toEqual([3, 1, 4, 1, 5]);
+   });
+
+   test("should update the min and max when shifting", () => {
+      for (const value of [3, 1, 4, 1, 5, 2]) {
+         queue.push(value);
+      }
+
+      expect(queue.shift()).toBe(3);
+      expect(queue.shift()).toBe(1);
+      expect(queue.min()).toBe(1);
+      expect(queue.shift()).toBe(4);
+      expect(queue.shift()).toBe(1);
+      expect(queue.min()).toBe(2);
+      expect(queue.max()).toBe(5);
+      expect(queue.shift()).toBe(5);
+      expect(queue.max()).toBe(2);
+   });
+
+   test("should compute sliding window extremes by index", () => {
+      const values = [1, 3, -1, -3, 5, 3, 6, 7];
+      const maxes: number[] = [];
+      const mins: number[] = [];
+      values.forEach((value, i) => {
+         queue.push(value);
+         queue.expireBefore(i - 2);
+         if (i >= 2) {
+            maxes.push(queue.max()!);
+            mins.push(queue.min()!);
+         }
+      });
+
+      expect(maxes).toEqual([3, 3, 5, 5, 6, 7]);
+      expect(mins).toEqual([-1, -3, -3, -3, 3, 3]);
+   });
+
+   test("should expire values by timestamp", () => {
+      queue.push(10, 1000);
+      queue.push(20, 1500);
+      queue.push(5, 2000);
+      queue.push(15, 2600);
+
+      expect(queue.expireBefore(1500)).toBe(1);
+      expect(queue.max()).toBe(20);
+      expect(queue.expireBefore(2100)).toBe(2);
+      expect(queue.min()).toBe(15);
+      expect(queue.max()).toBe(15);
+
+      expect(() => queue.push(1, 2500)).toThrow(RangeError);
+   });
+
+   test("should support custom comparators", () => {
+      const readings = new MonotonicQueue<{ celsius: number }>(
+         (a, b) => a.celsius - b.celsius
+      );
+      readings.push({ celsius: 20 });
+      readings.push({ celsius: 25 });
+      readings.push({ celsius: 18 });
+
+      expect(readings.min()?.celsius).toBe(18);
+      expect(readings.max()?.celsius).toBe(25);
+   });
+
+   test("should clear the window", () => {
+      queue.push(1);
+      queue.push(2);
+      queue.clear();
+
+      expect(queue.size()).toBe(0);
+      expect(queue.min()).toBeUndefined();
+      queue.push(3);
+      expect([...queue]).toEqual([3]);
+   });
+});
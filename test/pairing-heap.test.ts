@@ -0,0 +1,49 @@
+import { PairingHeap } from "../src";
+import { describe, beforeEach, it, expect } from "vitest";
+
+describe("PairingHeap", () => {
+   let heap: PairingHeap<number>;
+
+   beforeEach(() => {
+      heap = new PairingHeap<number>();
+   });
+
+   it("should link new nodes as the first child of the root", () => {
+      const root = heap.insert(1);
+      const a = heap.insert(5);
+      const b = heap.insert(7);
+
+      expect(root.child).toBe(b);
+      expect(b.prev).toBe(root);
+      expect(b.sibling).toBe(a);
+      expect(a.prev).toBe(b);
+   });
+
+   it("should cut a node from its parent when its priority increases", () => {
+      const root = heap.insert(1);
+      const a = heap.insert(5);
+      const b = heap.insert(7);
+
+      heap.update(a, 0);
+
+      expect(a.prev).toBeUndefined();
+      expect(a.child).toBe(root);
+      expect(root.child).toBe(b);
+      expect(b.sibling).toBeUndefined();
+   });
+
+   it("should pair the children of the root into a single tree on pop", () => {
+      const nodes = [1, 4, 2, 6, 3, 5].map((value) => heap.insert(value));
+
+      heap.pop();
+
+      const root = nodes[2];
+      expect(heap.peek()).toBe(2);
+      expect(root.prev).toBeUndefined();
+      expect(root.sibling).toBeUndefined();
+      expect(nodes.filter((node) => node.prev === undefined)).toEqual([
+         nodes[0],
+         root,
+      ]);
+   });
+});
@@ -0,0 +1,70 @@
+import { PrioritizedQueue } from "../src";
+import { describe, beforeEach, test, expect } from "vitest";
+
+describe("PrioritizedQueue", () => {
+   let queue: PrioritizedQueue<string>;
+
+   beforeEach(() => {
+      queue = new PrioritizedQueue<string>();
+   });
+
+   test("should dequeue values by priority", () => {
+      queue.enqueue("low", 10);
+      queue.enqueue("high", 1);
+      queue.enqueue("medium", 5);
+
+      expect(queue.size()).toBe(3);
+      expect(queue.front()).toBe("high");
+      expect(queue.frontPriority()).toBe(1);
+      expect(queue.dequeue()).toBe("high");
+      expect(queue.dequeue()).toBe("medium");
+      expect(queue.dequeue()).toBe("low");
+      expect(queue.dequeue()).toBeUndefined();
+      expect(queue.frontPriority()).toBeUndefined();
+   });
+
+   test("should dequeue values with the same priority in order", () => {
+      for (const value of ["a", "b", "c", "d", "e"]) {
+         queue.enqueue(value, 1);
+      }
+      queue.enqueue("first", 0);
+
+      expect(queue.toArray()).toEqual(["first", "a", "b", "c", "d", "e"]);
+   });
+
+   test("should support custom priority comparators", () => {
+      const maxQueue = new PrioritizedQueue<string, number>((a, b) => b - a);
+      maxQueue.enqueue("low", 1);
+      maxQueue.enqueue("high", 10);
+
+      expect(maxQueue.dequeue()).toBe("high");
+   });
+
+   test("should clone the queue", () => {
+      queue.enqueue("a", 2);
+      queue.enqueue("b", 1);
+      const clone = queue.clone();
+      clone.enqueue("c", 1);
+      clone.dequeue();
+
+      expect(clone.toArray()).toEqual(["c", "a"]);
+      expect(queue.toArray()).toEqual(["b", "a"]);
+   });
+
+   test("should clear the queue", () => {
+      queue.enqueue("a", 2);
+      queue.clear();
+
+      expect(queue.isEmpty()).toBe(true);
+      expect(queue.front()).toBeUndefined();
+   });
+
+   test("should iterate in dequeue order", () => {
+      queue.enqueue("c", 3);
+      queue.enqueue("a", 1);
+      queue.enqueue("b", 2);
+
+      expect([...queue]).toEqual(["a", "b", "c"]);
+      expect(queue.size()).toBe(3);
+   });
+});
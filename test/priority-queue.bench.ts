@@ -0,0 +1,62 @@
+import { Heap, PairingHeap, FibonacciHeap } from "../src";
+import { describe, bench } from "vitest";
+
+const SIZE = 10000;
+const values = Array.from({ length: SIZE }, (_, i) => (i * 7919) % SIZE);
+
+describe("push and pop", () => {
+   bench("Heap", () => {
+      const heap = new Heap<number>();
+      heap.push(...values);
+      while (!heap.isEmpty()) heap.pop();
+   });
+
+   bench("PairingHeap", () => {
+      const heap = new PairingHeap<number>();
+      heap.push(...values);
+      while (!heap.isEmpty()) heap.pop();
+   });
+
+   bench("FibonacciHeap", () => {
+      const heap = new FibonacciHeap<number>();
+      heap.push(...values);
+      while (!heap.isEmpty()) heap.pop();
+   });
+});
+
+describe("decrease-key", () => {
+   bench("PairingHeap", () => {
+      const heap = new PairingHeap<number>();
+      const nodes = values.map((value) => heap.insert(value + SIZE));
+      for (let i = 0; i < nodes.length; i++) {
+         heap.update(nodes[i], values[i]);
+         if (i % 4 === 0) heap.pop();
+      }
+   });
+
+   bench("FibonacciHeap", () => {
+      const heap = new FibonacciHeap<number>();
+      const nodes = values.map((value) => heap.insert(value + SIZE));
+      for (let i = 0; i < nodes.length; i++) {
+         heap.update(nodes[i], values[i]);
+         if (i % 4 === 0) heap.pop();
+      }
+   });
+});
+
+describe("meld", () => {
+   bench("Heap", () => {
+      const a = Heap.fromArray(values);
+      a.meld(Heap.fromArray(values));
+   });
+
+   bench("PairingHeap", () => {
+      const a = PairingHeap.fromArray(values);
+      a.meld(PairingHeap.fromArray(values));
+   });
+
+   bench("FibonacciHeap", () => {
+      const a = FibonacciHeap.fromArray(values);
+      a.meld(FibonacciHeap.fromArray(values));
+   });
+});
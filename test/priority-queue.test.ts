@@ -0,0 +1,264 @@
+import { Heap, PairingHeap, FibonacciHeap, PriorityQueue } from "../src";
+import { Comparator } from "../src/utils/comparator";
+import { describe, beforeEach, it, expect } from "vitest";
+
+const implementations: [
+   string,
+   <T>(comparator?: Comparator<T>) => PriorityQueue<T>,
+   <T>(array: T[]) => PriorityQueue<T>
+][] = [
+   ["Heap", (comparator) => new Heap(comparator), Heap.fromArray],
+   [
+      "PairingHeap",
+      (comparator) => new PairingHeap(comparator),
+      PairingHeap.fromArray,
+   ],
+   [
+      "FibonacciHeap",
+      (comparator) => new FibonacciHeap(comparator),
+      FibonacciHeap.fromArray,
+   ],
+];
+
+describe.each(implementations)("PriorityQueue (%s)", (_, create, fromArray) => {
+   it("should initialize an empty queue", () => {
+      const queue = create<number>();
+
+      expect(queue.size()).toBe(0);
+      expect(queue.isEmpty()).toBe(true);
+      expect(queue.peek()).toBeUndefined();
+      expect(queue.pop()).toBeUndefined();
+   });
+
+   it("should push and pop elements in order", () => {
+      const queue = create<number>();
+      queue.push(5, 10, 3, 8, 1);
+
+      expect(queue.size()).toBe(5);
+      expect(queue.peek()).toBe(1);
+      expect(queue.pop()).toBe(1);
+      expect(queue.pop()).toBe(3);
+      expect(queue.size()).toBe(3);
+   });
+
+   it("should support custom comparators", () => {
+      const queue = create<number>((a, b) => b - a);
+      queue.push(1, 5, 3, 7, 2);
+
+      expect(queue.pop()).toBe(7);
+      expect(queue.toArray()).toEqual([5, 3, 2, 1]);
+   });
+
+   it("should clone and convert to a sorted array", () => {
+      const queue = create<number>();
+      queue.push(5, 10, 3, 10);
+      const clone = queue.clone();
+      clone.pop();
+
+      expect(queue.toArray()).toEqual([3, 5, 10, 10]);
+      expect(clone.toArray()).toEqual([5, 10, 10]);
+   });
+
+   it("should clear the queue", () => {
+      const queue = create<number>();
+      queue.push(5, 10, 3);
+      queue.clear();
+
+      expect(queue.isEmpty()).toBe(true);
+      expect(queue.peek()).toBeUndefined();
+   });
+
+   it("should sort a large number of elements", () => {
+      const queue = create<number>();
+      const array = Array.from({ length: 1000 }, (_, i) => (i * 7919) % 1000);
+      queue.push(...array);
+
+      const result: number[] = [];
+      while (!queue.isEmpty()) {
+         result.push(queue.pop()!);
+      }
+
+      expect(result).toEqual([...array].sort((a, b) => a - b));
+   });
+
+   it("should build and clone a queue with a million elements", () => {
+      const size = 1000000;
+      const array = Array.from({ length: size }, (_, i) => i % 1000);
+      const queue = fromArray(array);
+
+      const clone = queue.clone();
+
+      expect(queue.size()).toBe(size);
+      expect(clone.size()).toBe(size);
+      expect(clone.pop()).toBe(0);
+   });
+});
+
+type HeapNode = { value: number; isDisposed(): boolean; heap(): unknown };
+
+type AddressableHeap = PriorityQueue<number> & Iterable<number> & {
+   insert(item: number): HeapNode;
+   update(node: HeapNode, value: number): boolean;
+   remove(node: HeapNode): boolean;
+   meld(other: AddressableHeap): void;
+};
+
+const addressableImplementations: [string, () => AddressableHeap][] = [
+   ["PairingHeap", () => new PairingHeap<number>()],
+   ["FibonacciHeap", () => new FibonacciHeap<number>()],
+];
+
+describe.each(addressableImplementations)(
+   "PriorityQueue with handles (%s)",
+   (_, create) => {
+      let heap: AddressableHeap;
+
+      beforeEach(() => {
+         heap = create();
+      });
+
+      it("should return node handles on insert", () => {
+         const node = heap.insert(5);
+         heap.insert(3);
+
+         expect(node.value).toBe(5);
+         expect(node.isDisposed()).toBe(false);
+         expect(node.heap()).toBe(heap);
+         expect(heap.peek()).toBe(3);
+      });
+
+      it("should decrease the priority of a node", () => {
+         heap.push(5, 10, 3);
+         const node = heap.insert(8);
+         heap.pop();
+
+         expect(heap.update(node, 1)).toBe(true);
+         expect(heap.peek()).toBe(1);
+         expect(heap.toArray()).toEqual([1, 5, 10]);
+      });
+
+      it("should increase the priority of a node", () => {
+         const node = heap.insert(1);
+         heap.push(5, 10, 3);
+
+         expect(heap.update(node, 7)).toBe(true);
+         expect(heap.pop()).toBe(3);
+         expect(heap.pop()).toBe(5);
+         expect(heap.pop()).toBe(7);
+         expect(node.isDisposed()).toBe(true);
+         expect(node.heap()).toBeUndefined();
+      });
+
+      it("should remove arbitrary nodes", () => {
+         const nodes = [5, 10, 3, 8, 1].map((value) => heap.insert(value));
+         heap.pop();
+
+         expect(heap.remove(nodes[3])).toBe(true);
+         expect(heap.remove(nodes[3])).toBe(false);
+         expect(heap.remove(nodes[4])).toBe(false);
+         expect(heap.update(nodes[4], 0)).toBe(false);
+         expect(heap.size()).toBe(3);
+         expect(heap.toArray()).toEqual([3, 5, 10]);
+      });
+
+      it("should meld another heap into the heap", () => {
+         heap.push(5, 10, 3);
+         const other = create();
+         other.push(7, 1, 8);
+         const node = other.insert(9);
+
+         heap.meld(other);
+         heap.update(node, 0);
+
+         expect(other.isEmpty()).toBe(true);
+         expect(node.heap()).toBe(heap);
+         expect(heap.size()).toBe(7);
+         expect(heap.toArray()).toEqual([0, 1, 3, 5, 7, 8, 10]);
+
+         const next = other.insert(4);
+         expect(next.heap()).toBe(other);
+         expect(() => heap.update(next, 0)).toThrowError(
+            "Node does not belong to this heap."
+         );
+      });
+
+      it("should reject nodes from another heap", () => {
+         heap.push(5, 10);
+         const other = create();
+         const node = other.insert(3);
+         other.push(7, 1);
+
+         expect(() => heap.update(node, 0)).toThrowError(
+            "Node does not belong to this heap."
+         );
+         expect(() => heap.remove(node)).toThrowError(
+            "Node does not belong to this heap."
+         );
+         expect([...heap].sort((a, b) => a - b)).toEqual([5, 10]);
+         expect([...other].sort((a, b) => a - b)).toEqual([1, 3, 7]);
+         expect(heap.size()).toBe(2);
+         expect(other.size()).toBe(3);
+      });
+
+      it("should reject nodes left over from clear", () => {
+         const node = heap.insert(5);
+         heap.clear();
+
+         expect(node.heap()).toBeUndefined();
+         expect(() => heap.update(node, 1)).toThrowError(
+            "Node does not belong to this heap."
+         );
+         expect(heap.size()).toBe(0);
+         expect(heap.peek()).toBeUndefined();
+      });
+
+      it("should iterate over the heap", () => {
+         heap.push(5, 10, 3, 8);
+         heap.pop();
+
+         expect([...heap].sort((a, b) => a - b)).toEqual([5, 8, 10]);
+      });
+
+      it("should stay consistent after many random operations", () => {
+         let seed = 1;
+         const random = () => {
+            seed = (seed * 16807) % 2147483647;
+            return seed;
+         };
+
+         const nodes = new Set<HeapNode>();
+         for (let i = 0; i < 1000; i++) {
+            const operation = random() % 4;
+            if (operation === 0 || nodes.size === 0) {
+               nodes.add(heap.insert(random() % 1000));
+            } else if (operation === 1) {
+               const top = heap.peek();
+               for (const node of nodes) {
+                  if (node.value === top) {
+                     nodes.delete(node);
+                     break;
+                  }
+               }
+               expect(heap.pop()).toBe(top);
+            } else {
+               const node = [...nodes][random() % nodes.size];
+               if (operation === 2) {
+                  heap.update(node, random() % 1000);
+               } else {
+                  heap.remove(node);
+                  nodes.delete(node);
+               }
+            }
+
+            const values = [...nodes].map((node) => node.value);
+            expect(heap.size()).toBe(values.length);
+            expect(heap.peek()).toBe(
+               values.length ? Math.min(...values) : undefined
+            );
+         }
+
+         const values = [...nodes].map((node) => node.value);
+         expect(heap.toArray()).toEqual(values.sort((a, b) => a - b));
+      });
+   }
+);
@@ -0,0 +1,179 @@
+import { RadixTrie, Trie } from "../src";
+import { describe, it, expect } from "vitest";
+
+describe("RadixTrie", () => {
+   it("should insert and search words correctly", () => {
+      const trie = new RadixTrie();
+      trie.insert("apple");
+      trie.insert("app");
+      trie.insert("application");
+
+      expect(trie.search("apple")).toBe(true);
+      expect(trie.search("app")).toBe(true);
+      expect(trie.search("application")).toBe(true);
+      expect(trie.search("appl")).toBe(false);
+      expect(trie.search("appliance")).toBe(false);
+      expect(trie.search("")).toBe(false);
+   });
+
+   it("should check if prefix exists correctly", () => {
+      const trie = new RadixTrie();
+      trie.insert("banana");
+      trie.insert("band");
+      trie.insert("bandana");
+
+      expect(trie.startsWith("ban")).toBe(true);
+      expect(trie.startsWith("band")).toBe(true);
+      expect(trie.startsWith("banda")).toBe(true);
+      expect(trie.startsWith("bandana")).toBe(true);
+      expect(trie.startsWith("bandanas")).toBe(false);
+      expect(trie.startsWith("bx")).toBe(false);
+      expect(trie.startsWith("cat")).toBe(false);
+   });
+
+   it("should split and merge edges", () => {
+      const trie = new RadixTrie();
+      trie.insert("team");
+      trie.insert("tea");
+      trie.insert("ten");
+
+      expect(trie.nodeCount()).toBe(5);
+
+      expect(trie.delete("ten")).toBe(true);
+      expect(trie.nodeCount()).toBe(3);
+      expect(trie.autocomplete("te").sort()).toEqual(["tea", "team"]);
+      expect(trie.longestPrefixMatch("tent")).toBe("");
+      expect(trie.delete("tea")).toBe(true);
+      expect(trie.nodeCount()).toBe(2);
+      expect(trie.getAllWords()).toEqual(["team"]);
+      expect(trie.autocomplete("tea")).toEqual(["team"]);
+      expect(trie.longestPrefixMatch("teams")).toBe("team");
+      expect(trie.startsWith("ten")).toBe(false);
+   });
+
+   it("should delete words correctly", () => {
+      const trie = new RadixTrie();
+      trie.insert("cat");
+      trie.insert("car");
+      trie.insert("cart");
+
+      expect(trie.delete("car")).toBe(true);
+      expect(trie.search("car")).toBe(false);
+      expect(trie.search("cart")).toBe(true);
+      expect(trie.search("cat")).toBe(true);
+      expect(trie.delete("car")).toBe(false);
+      expect(trie.delete("ca")).toBe(false);
+      expect(trie.delete("dog")).toBe(false);
+
+      expect(trie.delete("cart")).toBe(true);
+      expect(trie.delete("cat")).toBe(true);
+      expect(trie.isEmpty()).toBe(true);
+   });
+
+   it("should get all words and clear the trie", () => {
+      const trie = new RadixTrie();
+      trie.insert("dog");
+      trie.insert("dove");
+      trie.insert("door");
+
+      expect(trie.getAllWords().sort()).toEqual(["dog", "door", "dove"]);
+
+      trie.clear();
+      expect(trie.isEmpty()).toBe(true);
+      expect(trie.getAllWords()).toEqual([]);
+   });
+
+   it("should find the longest prefix match correctly", () => {
+      const trie = new RadixTrie();
+      trie.insert("car");
+      trie.insert("cart");
+      trie.insert("card");
+
+      expect(trie.longestPrefixMatch("carton")).toBe("cart");
+      expect(trie.longestPrefixMatch("carpenter")).toBe("car");
+      expect(trie.longestPrefixMatch("cards")).toBe("card");
+      expect(trie.longestPrefixMatch("ca")).toBe("");
+      expect(trie.longestPrefixMatch("dog")).toBe("");
+   });
+
+   it("should return autocomplete suggestions correctly", () => {
+      const trie = new RadixTrie();
+      trie.insert("apple");
+      trie.insert("app");
+      trie.insert("apricot");
+      trie.insert("banana");
+
+      expect(trie.autocomplete("app").sort()).toEqual(["app", "apple"]);
+      expect(trie.autocomplete("ap").sort()).toEqual(["app", "apple", "apricot"]);
+      expect(trie.autocomplete("apr")).toEqual(["apricot"]);
+      expect(trie.autocomplete("bana")).toEqual(["banana"]);
+      expect(trie.autocomplete("banx")).toEqual([]);
+      expect(trie.autocomplete("cat")).toEqual([]);
+   });
+
+   it("should collect the words of a large single-branch subtree", () => {
+      const trie = new RadixTrie();
+      const count = 600000;
+      for (let i = 0; i < count; i++) {
+         trie.insert(`/api/users/${i}`);
+      }
+
+      expect(trie.getAllWords()).toHaveLength(count);
+      expect(trie.autocomplete("/api")).toHaveLength(count);
+      expect(trie.autocomplete("/api/users/59999")).toHaveLength(11);
+   });
+
+   it("should behave like Trie after random operations", () => {
+      const trie = new Trie();
+      const radixTrie = new RadixTrie();
+      const alphabet = "abc";
+      const randomWord = () => {
+         let word = "";
+         const length = 1 + Math.floor(Math.random() * 5);
+         for (let i = 0; i < length; i++) {
+            word += alphabet[Math.floor(Math.random() * alphabet.length)];
+         }
+         return word;
+      };
+
+      for (let i = 0; i < 500; i++) {
+         const word = randomWord();
+         if (Math.random() < 0.4) {
+            expect(radixTrie.delete(word)).toBe(trie.delete(word));
+         } else {
+            trie.insert(word);
+            radixTrie.insert(word);
+         }
+         expect(radixTrie.search(word)).toBe(trie.search(word));
+      }
+
+      expect(radixTrie.getAllWords().sort()).toEqual(trie.getAllWords().sort());
+      for (const prefix of ["a", "ab", "bca", "cc"]) {
+         expect(radixTrie.autocomplete(prefix).sort()).toEqual(
+            trie.autocomplete(prefix).sort()
+         );
+         expect(radixTrie.startsWith(prefix)).toBe(trie.startsWith(prefix));
+      }
+      expect(radixTrie.longestPrefixMatch("abcabc")).toBe(
+         trie.longestPrefixMatch("abcabc")
+      );
+   });
+
+   it("should count far fewer nodes than Trie for URL paths", () => {
+      const trie = new Trie();
+      const radixTrie = new RadixTrie();
+      for (let i = 0; i < 500; i++) {
+         const path = `/api/v1/users/${i}/settings/notifications`;
+         trie.insert(path);
+         radixTrie.insert(path);
+      }
+
+      const trieNodes = trie.nodeCount();
+      const radixTrieNodes = radixTrie.nodeCount();
+
+      // This counts nodes instead of measuring memory, since the heap size
+      // isn't reliable in tests. Every node holds its own children map, so
+      // nodes dominate memory.
+      expect(radixTrieNodes).toBeLessThan(trieNodes / 5);
+   });
+});
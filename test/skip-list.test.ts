@@ -0,0 +1,149 @@
+import { SkipList } from "../src";
+import { describe, beforeEach, test, expect } from "vitest";
+
+describe("SkipList", () => {
+   let list: SkipList<number, string>;
+
+   beforeEach(() => {
+      list = new SkipList<number, string>(undefined, { seed: 1 });
+   });
+
+   test("should set and get entries", () => {
+      list.set(5, "five");
+      list.set(1, "one");
+      list.set(3, "three");
+
+      expect(list.get(3)).toBe("three");
+      expect(list.get(4)).toBe(undefined);
+      expect(list.has(1)).toBe(true);
+      expect(list.size()).toBe(3);
+      expect(list.toArray()).toEqual([
+         [1, "one"],
+         [3, "three"],
+         [5, "five"],
+      ]);
+   });
+
+   test("should replace the value of an existing key", () => {
+      list.set(1, "one");
+      list.set(1, "uno");
+
+      expect(list.get(1)).toBe("uno");
+      expect(list.size()).toBe(1);
+   });
+
+   test("should delete entries", () => {
+      [4, 2, 6].forEach((key) => list.set(key, `${key}`));
+
+      expect(list.delete(2)).toBe(true);
+      expect(list.delete(2)).toBe(false);
+      expect(list.has(2)).toBe(false);
+      expect([...list.keys()]).toEqual([4, 6]);
+      expect(list.size()).toBe(2);
+   });
+
+   test("should find the floor and ceiling of a key", () => {
+      [10, 20, 30].forEach((key) => list.set(key, `${key}`));
+
+      expect(list.floor(20)).toEqual([20, "20"]);
+      expect(list.floor(25)).toEqual([20, "20"]);
+      expect(list.floor(5)).toBe(undefined);
+      expect(list.ceiling(20)).toEqual([20, "20"]);
+      expect(list.ceiling(25)).toEqual([30, "30"]);
+      expect(list.ceiling(35)).toBe(undefined);
+   });
+
+   test("should iterate through a range of keys", () => {
+      for (let key = 0; key < 10; key++) list.set(key, `${key}`);
+
+      expect([...list.range(3, 6)].map(([key]) => key)).toEqual([3, 4, 5, 6]);
+      expect([...list.range(8, 20)].map(([key]) => key)).toEqual([8, 9]);
+      expect([...list.range(6, 3)]).toEqual([]);
+   });
+
+   test("should rank keys and return entries by index", () => {
+      [50, 10, 40, 20, 30].forEach((key) => list.set(key, `${key}`));
+
+      expect(list.rank(10)).toBe(0);
+      expect(list.rank(30)).toBe(2);
+      expect(list.rank(35)).toBe(3);
+      expect(list.rank(100)).toBe(5);
+      expect(list.at(0)).toEqual([10, "10"]);
+      expect(list.at(3)).toEqual([40, "40"]);
+      expect(list.at(-1)).toEqual([50, "50"]);
+      expect(list.at(5)).toBe(undefined);
+   });
+
+   test("should use a custom comparator", () => {
+      const reversed = new SkipList<string, number>((a, b) => b.localeCompare(a));
+      reversed.set("a", 1);
+      reversed.set("c", 3);
+      reversed.set("b", 2);
+
+      expect([...reversed.keys()]).toEqual(["c", "b", "a"]);
+      expect([...reversed.values()]).toEqual([3, 2, 1]);
+   });
+
+   test("should be deterministic with a seed", () => {
+      // The number of comparisons depends on the levels of the nodes
+      const countComparisons = (seed: number) => {
+         let comparisons = 0;
+         const list = new SkipList<number, number>(
+            (a, b) => {
+               comparisons++;
+               return a - b;
+            },
+            { seed }
+         );
+         for (let i = 0; i < 100; i++) list.set(i, i);
+         for (let i = 0; i < 100; i++) list.get(i);
+         return comparisons;
+      };
+
+      expect(countComparisons(42)).toBe(countComparisons(42));
+
+      // With a single level, this would take about 10,000 comparisons
+      expect(countComparisons(42)).toBeLessThan(5000);
+   });
+
+   test("should throw for an invalid config", () => {
+      expect(() => new SkipList(undefined, { maxLevel: 0 })).toThrowError();
+      expect(() => new SkipList(undefined, { probability: 1 })).toThrowError();
+   });
+
+   test("should clone and clear", () => {
+      list.set(1, "one");
+      const clone = list.clone();
+      list.clear();
+      clone.set(2, "two");
+
+      expect(list.isEmpty()).toBe(true);
+      expect(list.at(0)).toBe(undefined);
+      expect([...clone]).toEqual([
+         [1, "one"],
+         [2, "two"],
+      ]);
+   });
+
+   test("should match a sorted array after random operations", () => {
+      const random = new SkipList<number, number>(undefined, { seed: 7 });
+      const expected = new Map<number, number>();
+      for (let i = 0; i < 500; i++) {
+         const key = Math.floor(Math.random() * 100);
+         if (Math.random() < 0.3) {
+            expect(random.delete(key)).toBe(expected.delete(key));
+         } else {
+            random.set(key, i);
+            expected.set(key, i);
+         }
+      }
+
+      const sorted = [...expected].sort(([a], [b]) => a - b);
+      expect(random.toArray()).toEqual(sorted);
+      expect(random.size()).toBe(sorted.length);
+      sorted.forEach(([key, value], index) => {
+         expect(random.at(index)).toEqual([key, value]);
+         expect(random.rank(key)).toBe(index);
+      });
+   });
+});
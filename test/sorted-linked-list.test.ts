@@ -0,0 +1,110 @@
+import { SortedLinkedList } from "../src";
+import { describe, beforeEach, test, expect } from "vitest";
+
+describe("SortedLinkedList", () => {
+   let list: SortedLinkedList<number>;
+
+   beforeEach(() => {
+      list = new SortedLinkedList<number>();
+   });
+
+   test("should insert values in order", () => {
+      list.insert(5);
+      list.insert(1);
+      list.insert(3);
+      list.insert(7);
+
+      expect(list.toArray()).toEqual([1, 3, 5, 7]);
+      expect(list.head()?.value).toBe(1);
+      expect(list.tail()?.value).toBe(7);
+      expect(list.size()).toBe(4);
+   });
+
+   test("should keep equal values in insertion order", () => {
+      const byTime = new SortedLinkedList<{ time: number; name: string }>(
+         (a, b) => a.time - b.time
+      );
+      byTime.insert({ time: 2, name: "b" });
+      byTime.insert({ time: 1, name: "a" });
+      byTime.insert({ time: 2, name: "c" });
+
+      expect(byTime.toArray().map((event) => event.name)).toEqual([
+         "a",
+         "b",
+         "c",
+      ]);
+   });
+
+   test("should reject duplicates if configured", () => {
+      const unique = new SortedLinkedList<number>(undefined, { unique: true });
+
+      expect(unique.insert(2)).toBeDefined();
+      expect(unique.insert(1)).toBeDefined();
+      expect(unique.insert(2)).toBe(undefined);
+      expect(unique.insertAll([3, 1, 3, 4])).toBe(2);
+      expect(unique.toArray()).toEqual([1, 2, 3, 4]);
+   });
+
+   test("should insert a batch of unsorted values", () => {
+      list.insert(4);
+      list.insert(8);
+
+      expect(list.insertAll([9, 2, 6, 4, 0])).toBe(5);
+      expect(list.toArray()).toEqual([0, 2, 4, 4, 6, 8, 9]);
+   });
+
+   test("should merge another sorted list", () => {
+      const other = SortedLinkedList.fromArray([6, 2, 10]);
+      const node = other.find(6);
+      list.insertAll([1, 5, 9]);
+
+      expect(list.merge(other)).toBe(3);
+      expect(list.toArray()).toEqual([1, 2, 5, 6, 9, 10]);
+      expect(list.find(6)).toBe(node);
+      expect(other.isEmpty()).toBe(true);
+      expect(() => list.merge(list)).toThrowError();
+   });
+
+   test("should find and remove values", () => {
+      list.insertAll([1, 3, 5]);
+
+      expect(list.has(3)).toBe(true);
+      expect(list.has(4)).toBe(false);
+      expect(list.remove(3)).toBe(true);
+      expect(list.remove(3)).toBe(false);
+      expect(list.deleteNode(list.head()!)).toBe(true);
+      expect(list.toArray()).toEqual([5]);
+   });
+
+   test("should clone and clear", () => {
+      list.insertAll([2, 1]);
+      const clone = list.clone();
+      list.clear();
+      clone.insert(3);
+
+      expect(list.isEmpty()).toBe(true);
+      expect([...clone]).toEqual([1, 2, 3]);
+      expect([...clone.nodes()].map((node) => node.value)).toEqual([1, 2, 3]);
+   });
+
+   test("should stay sorted after random operations", () => {
+      const expected: number[] = [];
+      for (let i = 0; i < 200; i++) {
+         const value = Math.floor(Math.random() * 50);
+         if (i % 20 === 0) {
+            const batch = [value, value + 3, value - 7];
+            list.insertAll(batch);
+            expected.push(...batch);
+         } else if (i % 3 === 0 && expected.length) {
+            const removed = expected[i % expected.length];
+            list.remove(removed);
+            expected.splice(expected.indexOf(removed), 1);
+         } else {
+            list.insert(value);
+            expected.push(value);
+         }
+      }
+
+      expect(list.toArray()).toEqual(expected.sort((a, b) => a - b));
+   });
+});
@@ -0,0 +1,115 @@
+import { TrieMap } from "../src";
+import { describe, beforeEach, it, expect } from "vitest";
+
+describe("TrieMap", () => {
+   let map: TrieMap<number>;
+
+   beforeEach(() => {
+      map = new TrieMap<number>();
+   });
+
+   it("should set and get values", () => {
+      map.set("apple", 1);
+      map.set("app", 2);
+
+      expect(map.get("apple")).toBe(1);
+      expect(map.get("app")).toBe(2);
+      expect(map.get("ap")).toBe(undefined);
+      expect(map.get("apples")).toBe(undefined);
+      expect(map.size()).toBe(2);
+   });
+
+   it("should replace the value of an existing key", () => {
+      map.set("key", 1);
+      map.set("key", 2);
+
+      expect(map.get("key")).toBe(2);
+      expect(map.size()).toBe(1);
+   });
+
+   it("should check if keys exist", () => {
+      map.set("cat", 0);
+
+      expect(map.has("cat")).toBe(true);
+      expect(map.has("ca")).toBe(false);
+      expect(map.has("cats")).toBe(false);
+   });
+
+   it("should delete keys and leave nothing behind", () => {
+      map.set("band", 1);
+      map.set("bandana", 2);
+
+      expect(map.delete("bandana")).toBe(true);
+      expect(map.delete("bandana")).toBe(false);
+      expect(map.delete("ban")).toBe(false);
+      expect(map.entriesWithPrefix("banda")).toEqual([]);
+      expect(map.hasPrefix("banda")).toBe(false);
+      expect(map.hasPrefix("band")).toBe(true);
+      expect(map.get("band")).toBe(1);
+
+      expect(map.delete("band")).toBe(true);
+      expect(map.hasPrefix("b")).toBe(false);
+      expect(map.isEmpty()).toBe(true);
+      expect(map.size()).toBe(0);
+      expect([...map.entries()]).toEqual([]);
+      expect(map.longestPrefixMatch("bandana")).toBe(undefined);
+   });
+
+   it("should return the entries with a prefix", () => {
+      map.set("car", 1);
+      map.set("card", 2);
+      map.set("care", 3);
+      map.set("dog", 4);
+
+      expect(map.entriesWithPrefix("car")).toEqual([
+         ["car", 1],
+         ["card", 2],
+         ["care", 3],
+      ]);
+      expect(map.entriesWithPrefix("do")).toEqual([["dog", 4]]);
+      expect(map.entriesWithPrefix("x")).toEqual([]);
+   });
+
+   it("should find the longest prefix match with its value", () => {
+      const routes = new TrieMap<string>();
+      routes.set("/api", "api");
+      routes.set("/api/users", "users");
+
+      expect(routes.longestPrefixMatch("/api/users/42")).toEqual([
+         "/api/users",
+         "users",
+      ]);
+      expect(routes.longestPrefixMatch("/api/posts")).toEqual(["/api", "api"]);
+      expect(routes.longestPrefixMatch("/home")).toBe(undefined);
+
+      routes.set("", "root");
+      expect(routes.longestPrefixMatch("/home")).toEqual(["", "root"]);
+   });
+
+   it("should keep falsy values", () => {
+      map.set("zero", 0);
+
+      expect(map.get("zero")).toBe(0);
+      expect(map.longestPrefixMatch("zeros")).toEqual(["zero", 0]);
+   });
+
+   it("should iterate through the entries", () => {
+      map.set("b", 2);
+      map.set("a", 1);
+
+      expect([...map]).toEqual([
+         ["b", 2],
+         ["a", 1],
+      ]);
+      expect([...map.keys()]).toEqual(["b", "a"]);
+      expect([...map.values()]).toEqual([2, 1]);
+   });
+
+   it("should clear the map", () => {
+      map.set("a", 1);
+      map.clear();
+
+      expect(map.isEmpty()).toBe(true);
+      expect(map.get("a")).toBe(undefined);
+   });
+});
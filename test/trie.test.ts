@@ -1,4 +1,4 @@
-import { Trie } from "../src";
+import { Trie, normalizers, tokenizers } from "../src";
 import { describe, it, expect } from "vitest";
 
 describe("Trie", () => {
@@ -105,4 +105,526 @@ describe("Trie", () => {
       expect(trie.autocomplete("bana")).toEqual(["banana"]);
       expect(trie.autocomplete("cat")).toEqual([]);
    });
+
+   it("should accumulate weights on insert", () => {
+      const trie = new Trie();
+      trie.insert("apple");
+      trie.insert("apple");
+      trie.insert("app", 5);
+
+      expect(trie.getWeight("apple")).toBe(2);
+      expect(trie.getWeight("app")).toBe(5);
+      expect(trie.getWeight("ap")).toBe(undefined);
+      expect(trie.getWeight("banana")).toBe(undefined);
+   });
+
+   it("should limit autocomplete suggestions", () => {
+      const trie = new Trie();
+      ["car", "card", "care", "cart"].forEach((word) => trie.insert(word));
+
+      expect(trie.autocomplete("car", { limit: 2 })).toEqual(["car", "card"]);
+      expect(trie.autocomplete("car", { limit: 0 })).toEqual([]);
+      expect(trie.autocomplete("car", { limit: 10 })).toHaveLength(4);
+   });
+
+   it("should return the heaviest suggestions first", () => {
+      const trie = new Trie();
+      trie.insert("car", 3);
+      trie.insert("card", 10);
+      trie.insert("care", 1);
+      trie.insert("cart", 3);
+      trie.insert("carbon", 7);
+      trie.insert("cat", 100);
+
+      expect(trie.autocomplete("car", { sortBy: "weight" })).toEqual([
+         "card",
+         "carbon",
+         "car",
+         "cart",
+         "care",
+      ]);
+      expect(trie.autocomplete("ca", { sortBy: "weight", limit: 3 })).toEqual([
+         "cat",
+         "card",
+         "carbon",
+      ]);
+   });
+
+   it("should update the ranking after weights change", () => {
+      const trie = new Trie();
+      trie.insert("alpha", 5);
+      trie.insert("beta", 3);
+      trie.insert("gamma", 1);
+
+      trie.insert("gamma", 9);
+      expect(trie.autocomplete("", { sortBy: "weight", limit: 1 })).toEqual([
+         "gamma",
+      ]);
+
+      trie.insert("gamma", -9);
+      trie.delete("alpha");
+      expect(trie.autocomplete("", { sortBy: "weight" })).toEqual([
+         "beta",
+         "gamma",
+      ]);
+   });
+
+   it("should return the top words among many", () => {
+      const trie = new Trie();
+      for (let i = 0; i < 1000; i++) {
+         trie.insert(`word${i}`, i);
+      }
+
+      const top = trie.autocomplete("word", { sortBy: "weight", limit: 5 });
+
+      expect(top).toEqual(["word999", "word998", "word997", "word996", "word995"]);
+   });
+
+   it("should find words within an edit distance", () => {
+      const trie = new Trie();
+      ["cat", "cart", "chat", "dog", "cast", "at"].forEach((word) =>
+         trie.insert(word)
+      );
+
+      expect(trie.fuzzySearch("cat", 0)).toEqual([{ word: "cat", distance: 0 }]);
+
+      const matches = trie.fuzzySearch("cat", 1);
+      expect(matches[0]).toEqual({ word: "cat", distance: 0 });
+      expect(matches.slice(1).map((match) => match.word).sort()).toEqual([
+         "at",
+         "cart",
+         "cast",
+         "chat",
+      ]);
+      expect(matches.every((match) => match.word !== "dog")).toBe(true);
+      expect(trie.fuzzySearch("xyz", 1)).toEqual([]);
+   });
+
+   it("should rank fuzzy matches by distance, then by weight", () => {
+      const trie = new Trie();
+      trie.insert("bat", 1);
+      trie.insert("hat", 5);
+      trie.insert("bath", 9);
+
+      expect(trie.fuzzySearch("cat", 2)).toEqual([
+         { word: "hat", distance: 1 },
+         { word: "bat", distance: 1 },
+         { word: "bath", distance: 2 },
+      ]);
+   });
+
+   it("should count transpositions as one edit if enabled", () => {
+      const trie = new Trie();
+      trie.insert("form");
+
+      expect(trie.fuzzySearch("from", 1)).toEqual([]);
+      expect(trie.fuzzySearch("from", 1, { transpositions: true })).toEqual([
+         { word: "form", distance: 1 },
+      ]);
+      expect(trie.fuzzySearch("from", 2)).toEqual([
+         { word: "form", distance: 2 },
+      ]);
+   });
+
+   it("should match prefixes within an edit distance", () => {
+      const trie = new Trie();
+      ["application", "apply", "apricot", "banana"].forEach((word) =>
+         trie.insert(word)
+      );
+
+      const matches = trie.fuzzySearch("aplp", 1, {
+         prefix: true,
+         transpositions: true,
+      });
+
+      expect(matches.map((match) => match.word).sort()).toEqual([
+         "application",
+         "apply",
+      ]);
+      expect(matches.every((match) => match.distance === 1)).toBe(true);
+      expect(trie.fuzzySearch("app", 0, { prefix: true })).toHaveLength(2);
+   });
+
+   it("should match the results of a brute-force search", () => {
+      const levenshtein = (a: string, b: string): number => {
+         const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+         for (let i = 1; i <= a.length; i++) {
+            let diagonal = row[0];
+            row[0] = i;
+            for (let j = 1; j <= b.length; j++) {
+               const above = row[j];
+               row[j] = Math.min(
+                  row[j] + 1,
+                  row[j - 1] + 1,
+                  diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+               );
+               diagonal = above;
+            }
+         }
+         return row[b.length];
+      };
+
+      const trie = new Trie();
+      const words = ["kitten", "sitting", "mitten", "kit", "bitten", "sit"];
+      words.forEach((word) => trie.insert(word));
+
+      for (const query of ["kitten", "sittin", "kt", "bitter"]) {
+         const expected = words
+            .map((word) => ({ word, distance: levenshtein(word, query) }))
+            .filter((match) => match.distance <= 2)
+            .sort((a, b) => a.word.localeCompare(b.word));
+         const actual = trie
+            .fuzzySearch(query, 2)
+            .sort((a, b) => a.word.localeCompare(b.word));
+
+         expect(actual).toEqual(expected);
+      }
+   });
+
+   it("should track the number of words", () => {
+      const trie = new Trie();
+      expect(trie.size()).toBe(0);
+
+      trie.insert("car");
+      trie.insert("cart");
+      trie.insert("car");
+      expect(trie.size()).toBe(2);
+
+      trie.delete("car");
+      trie.delete("dog");
+      expect(trie.size()).toBe(1);
+      expect(trie.isEmpty()).toBe(false);
+
+      trie.delete("cart");
+      expect(trie.isEmpty()).toBe(true);
+
+      trie.insert("");
+      expect(trie.size()).toBe(1);
+      expect(trie.isEmpty()).toBe(false);
+   });
+
+   it("should count the words with a prefix", () => {
+      const trie = new Trie();
+      ["car", "card", "care", "cat", "dog"].forEach((word) => trie.insert(word));
+
+      expect(trie.countWithPrefix("")).toBe(5);
+      expect(trie.countWithPrefix("ca")).toBe(4);
+      expect(trie.countWithPrefix("car")).toBe(3);
+      expect(trie.countWithPrefix("card")).toBe(1);
+      expect(trie.countWithPrefix("x")).toBe(0);
+
+      trie.delete("car");
+      trie.delete("cards");
+      expect(trie.countWithPrefix("car")).toBe(2);
+      expect(trie.countWithPrefix("ca")).toBe(3);
+   });
+
+   it("should keep counts consistent with the words after random operations", () => {
+      const trie = new Trie();
+      const words = new Set<string>();
+      for (let i = 0; i < 300; i++) {
+         const word = Math.floor(Math.random() * 200).toString(3);
+         if (Math.random() < 0.4) {
+            expect(trie.delete(word)).toBe(words.delete(word));
+         } else {
+            trie.insert(word);
+            words.add(word);
+         }
+      }
+
+      expect(trie.size()).toBe(words.size);
+      for (const prefix of ["", "1", "2", "10", "21"]) {
+         const expected = [...words].filter((word) => word.startsWith(prefix));
+         expect(trie.countWithPrefix(prefix)).toBe(expected.length);
+      }
+   });
+
+   it("should iterate through the words in lexicographical order", () => {
+      const trie = new Trie();
+      ["pear", "apple", "peach", "app", "banana"].forEach((word) =>
+         trie.insert(word)
+      );
+
+      expect([...trie]).toEqual(["app", "apple", "banana", "peach", "pear"]);
+      expect([...trie.values()]).toEqual([...trie]);
+   });
+
+   it("should find words with a suffix", () => {
+      const trie = new Trie({ indexSuffixes: true });
+      trie.insert("running");
+      trie.insert("jumped");
+
+      expect(trie.endsWith("ing")).toBe(true);
+      expect(trie.endsWith("running")).toBe(true);
+      expect(trie.endsWith("ed")).toBe(true);
+      expect(trie.endsWith("s")).toBe(false);
+
+      trie.delete("running");
+      expect(trie.endsWith("ing")).toBe(false);
+
+      trie.clear();
+      expect(trie.endsWith("ed")).toBe(false);
+
+      expect(() => new Trie().endsWith("ing")).toThrowError();
+   });
+
+   describe("match", () => {
+      const trie = new Trie();
+      ["cat", "cot", "cut", "coat", "ca", "car", "cart", "dog", "c?t"].forEach(
+         (word) => trie.insert(word)
+      );
+      const match = (pattern: string) => [...trie.match(pattern)].sort();
+
+      it("should match single-character wildcards", () => {
+         expect(match("c?t")).toEqual(["c?t", "cat", "cot", "cut"]);
+         expect(match("??")).toEqual(["ca"]);
+         expect(match("?????")).toEqual([]);
+      });
+
+      it("should match multi-character wildcards", () => {
+         expect(match("ca*")).toEqual(["ca", "car", "cart", "cat"]);
+         expect(match("*t")).toEqual(["c?t", "cart", "cat", "coat", "cot", "cut"]);
+         expect(match("c*a*t")).toEqual(["cart", "cat", "coat"]);
+         expect(match("*")).toHaveLength(9);
+         expect(match("dog*")).toEqual(["dog"]);
+      });
+
+      it("should match character classes", () => {
+         expect(match("c[ao]t")).toEqual(["cat", "cot"]);
+         expect(match("c[a-o]t")).toEqual(["cat", "cot"]);
+         expect(match("c[!a]t")).toEqual(["c?t", "cot", "cut"]);
+         expect(match("c[^ao]t")).toEqual(["c?t", "cut"]);
+      });
+
+      it("should match escaped characters literally", () => {
+         expect(match("c\\?t")).toEqual(["c?t"]);
+      });
+
+      it("should throw for invalid patterns", () => {
+         expect(() => match("c[at")).toThrowError();
+         expect(() => match("ca\\")).toThrowError();
+      });
+
+      it("should stream the results", () => {
+         const iterator = trie.match("c*");
+
+         expect(iterator.next()).toEqual({ value: "ca", done: false });
+         expect(typeof iterator.next().value).toBe("string");
+      });
+   });
+
+   describe("tokenizers and normalizers", () => {
+      it("should search case-insensitively", () => {
+         const trie = new Trie({ normalizers: [normalizers.caseFold] });
+         trie.insert("Hello");
+         trie.insert("HELP");
+
+         expect(trie.search("hello")).toBe(true);
+         expect(trie.search("HeLLo")).toBe(true);
+         expect(trie.startsWith("HEL")).toBe(true);
+         expect(trie.autocomplete("He")).toEqual(["hello", "help"]);
+         expect(trie.delete("HELLO")).toBe(true);
+         expect(trie.size()).toBe(1);
+      });
+
+      it("should strip accents", () => {
+         const trie = new Trie({
+            normalizers: [normalizers.caseFold, normalizers.stripAccents],
+         });
+         trie.insert("Café");
+         trie.insert("crème brûlée");
+
+         expect(trie.search("cafe")).toBe(true);
+         expect(trie.search("CAFÉ")).toBe(true);
+         expect(trie.search("cafe\u0301")).toBe(true);
+         expect(trie.autocomplete("cre")).toEqual(["creme brulee"]);
+      });
+
+      it("should route URL paths by segment", () => {
+         const router = new Trie({ tokenizer: tokenizers.pathSegments });
+         router.insert("/api/users");
+         router.insert("/api/users/settings");
+         router.insert("/api/posts");
+
+         expect(router.search("/api/users/")).toBe(true);
+         expect(router.startsWith("/api/us")).toBe(false);
+         expect(router.longestPrefixMatch("/api/users/42/avatar")).toBe(
+            "/api/users"
+         );
+         expect(router.longestPrefixMatch("/static/app.js")).toBe("");
+         expect(router.autocomplete("/api")).toEqual([
+            "/api/users",
+            "/api/users/settings",
+            "/api/posts",
+         ]);
+         expect(router.countWithPrefix("/api/users")).toBe(2);
+         expect([...router.match("/api/*/settings")]).toEqual([
+            "/api/users/settings",
+         ]);
+      });
+
+      it("should parse commands as word tokens", () => {
+         const commands = new Trie({
+            tokenizer: tokenizers.words,
+            normalizers: [normalizers.caseFold],
+            indexSuffixes: true,
+         });
+         commands.insert("git commit");
+         commands.insert("git commit amend");
+         commands.insert("git push", 5);
+
+         expect(commands.longestPrefixMatch("GIT   commit --verbose")).toBe(
+            "git commit"
+         );
+         expect(commands.autocomplete("git", { sortBy: "weight" })).toEqual([
+            "git push",
+            "git commit",
+            "git commit amend",
+         ]);
+         expect(commands.endsWith("amend")).toBe(true);
+         expect(commands.endsWith("mend")).toBe(false);
+         expect(commands.fuzzySearch("git comit", 0)).toEqual([]);
+         expect(commands.fuzzySearch("git amend", 1)).toEqual([
+            { word: "git push", distance: 1 },
+            { word: "git commit", distance: 1 },
+            { word: "git commit amend", distance: 1 },
+         ]);
+      });
+   });
+
+   describe("serialization", () => {
+      const createTrie = () => {
+         const trie = new Trie({ indexSuffixes: true });
+         trie.insert("");
+         trie.insert("cat", 3);
+         trie.insert("car");
+         trie.insert("cart", -2.5);
+         trie.insert("dog");
+         trie.insert("😀🎉");
+         trie.insert("😀a");
+         trie.insert("naïve");
+         trie.delete("car");
+         trie.delete("dog");
+         return trie;
+      };
+
+      const expectSameTrie = (actual: Trie, expected: Trie) => {
+         expect(actual.getAllWords()).toEqual(expected.getAllWords());
+         expect(actual.size()).toBe(expected.size());
+         for (const word of expected) {
+            expect(actual.getWeight(word)).toBe(expected.getWeight(word));
+         }
+         expect(actual.autocomplete("", { sortBy: "weight" })).toEqual(
+            expected.autocomplete("", { sortBy: "weight" })
+         );
+         expect(actual.countWithPrefix("ca")).toBe(expected.countWithPrefix("ca"));
+      };
+
+      it("should round-trip through JSON", () => {
+         const trie = createTrie();
+         const json = JSON.parse(JSON.stringify(trie));
+         const loaded = Trie.fromJSON(json, { indexSuffixes: true });
+
+         expectSameTrie(loaded, trie);
+         expect(loaded.search("")).toBe(true);
+         expect(loaded.search("car")).toBe(false);
+         expect(loaded.search("dog")).toBe(false);
+         expect(loaded.startsWith("do")).toBe(false);
+         expect(loaded.search("😀🎉")).toBe(true);
+         expect(loaded.endsWith("🎉")).toBe(true);
+         expect(loaded.endsWith("og")).toBe(false);
+      });
+
+      it("should round-trip through a snapshot", () => {
+         const trie = createTrie();
+         const loaded = Trie.fromSnapshot(trie.toSnapshot(), {
+            indexSuffixes: true,
+         });
+
+         expectSameTrie(loaded, trie);
+         expect(loaded.search("")).toBe(true);
+         expect(loaded.search("car")).toBe(false);
+         expect(loaded.startsWith("do")).toBe(false);
+         expect(loaded.fuzzySearch("😀b", 1)).toEqual([
+            { word: "😀🎉", distance: 1 },
+            { word: "😀a", distance: 1 },
+         ]);
+         expect(loaded.endsWith("ïve")).toBe(true);
+      });
+
+      it("should keep working after loading", () => {
+         const loaded = Trie.fromSnapshot(createTrie().toSnapshot());
+
+         loaded.insert("cap");
+         expect(loaded.delete("cat")).toBe(true);
+         expect(loaded.delete("")).toBe(true);
+
+         expect(loaded.getAllWords()).toEqual(["cart", "cap", "😀🎉", "😀a", "naïve"]);
+         expect(loaded.size()).toBe(5);
+         expect(loaded.autocomplete("ca", { sortBy: "weight" })).toEqual([
+            "cap",
+            "cart",
+         ]);
+      });
+
+      it("should round-trip an empty trie", () => {
+         const trie = new Trie();
+
+         expect(Trie.fromJSON(trie.toJSON()).isEmpty()).toBe(true);
+         expect(Trie.fromSnapshot(trie.toSnapshot()).isEmpty()).toBe(true);
+      });
+
+      it("should keep the tokens of the tokenizer", () => {
+         const router = new Trie({ tokenizer: tokenizers.pathSegments });
+         router.insert("/api/users");
+         router.insert("/api/posts");
+
+         const loaded = Trie.fromSnapshot(router.toSnapshot(), {
+            tokenizer: tokenizers.pathSegments,
+         });
+         expect(loaded.longestPrefixMatch("/api/users/42")).toBe("/api/users");
+         expect(loaded.startsWith("/api/us")).toBe(false);
+      });
+
+      it("should make a snapshot smaller than the JSON", () => {
+         const trie = new Trie();
+         for (let i = 0; i < 1000; i++) {
+            trie.insert(`word${i}`);
+         }
+
+         const snapshot = trie.toSnapshot();
+         const loaded = Trie.fromSnapshot(snapshot);
+
+         expect(snapshot.length).toBeLessThan(JSON.stringify(trie).length / 5);
+         expect(loaded.getAllWords()).toEqual(trie.getAllWords());
+      });
+
+      it("should throw for invalid input", () => {
+         const snapshot = createTrie().toSnapshot();
+
+         expect(() => Trie.fromSnapshot(new Uint8Array([1, 2, 3, 4, 1]))).toThrowError(
+            "Invalid trie snapshot."
+         );
+         expect(() => Trie.fromSnapshot(snapshot.slice(0, -1))).toThrowError(
+            RangeError
+         );
+         const unsupported = snapshot.slice();
+         unsupported[4] = 99;
+         expect(() => Trie.fromSnapshot(unsupported)).toThrowError(
+            "Unsupported trie snapshot version: 99."
+         );
+         expect(() => Trie.fromJSON({ version: 2, root: {} })).toThrowError(
+            "Unsupported trie JSON version: 2."
+         );
+         for (const children of [5, [5], [["a"]], [[1, {}]], [["a", null]]]) {
+            const json = {
+               version: 1,
+               root: { children },
+            } as unknown as Parameters<typeof Trie.fromJSON>[0];
+            expect(() => Trie.fromJSON(json)).toThrowError(
+               "Invalid trie JSON."
+            );
+         }
+      });
+   });
 });
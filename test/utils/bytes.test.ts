@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { ByteReader, ByteWriter } from "../../src/utils/bytes";
+
+describe("ByteWriter and ByteReader", () => {
+   it("should round-trip values", () => {
+      const writer = new ByteWriter();
+      writer.writeByte(255);
+      writer.writeVarint(0);
+      writer.writeVarint(127);
+      writer.writeVarint(300);
+      writer.writeVarint(Number.MAX_SAFE_INTEGER);
+      writer.writeFloat64(-2.5);
+      writer.writeString("a😀é");
+      writer.writeString("");
+
+      const reader = new ByteReader(writer.toBytes());
+      expect(reader.readByte()).toBe(255);
+      expect(reader.readVarint()).toBe(0);
+      expect(reader.readVarint()).toBe(127);
+      expect(reader.readVarint()).toBe(300);
+      expect(reader.readVarint()).toBe(Number.MAX_SAFE_INTEGER);
+      expect(reader.readFloat64()).toBe(-2.5);
+      expect(reader.readString()).toBe("a😀é");
+      expect(reader.readString()).toBe("");
+      expect(reader.isAtEnd()).toBe(true);
+   });
+
+   it("should write small varints as single bytes", () => {
+      const writer = new ByteWriter();
+      writer.writeVarint(127);
+      expect(writer.toBytes()).toEqual(new Uint8Array([127]));
+
+      writer.writeVarint(128);
+      expect(writer.toBytes()).toEqual(new Uint8Array([127, 0x80, 1]));
+   });
+
+   it("should grow past the initial capacity", () => {
+      const writer = new ByteWriter();
+      writer.writeString("x".repeat(1000));
+
+      expect(new ByteReader(writer.toBytes()).readString()).toBe("x".repeat(1000));
+   });
+
+   it("should throw for invalid values", () => {
+      const writer = new ByteWriter();
+
+      expect(() => writer.writeVarint(-1)).toThrowError(RangeError);
+      expect(() => writer.writeVarint(1.5)).toThrowError(RangeError);
+   });
+
+   it("should throw for truncated data", () => {
+      expect(() => new ByteReader(new Uint8Array([])).readByte()).toThrowError(
+         RangeError
+      );
+      expect(() => new ByteReader(new Uint8Array([0x80])).readVarint()).toThrowError(
+         RangeError
+      );
+      expect(() => new ByteReader(new Uint8Array([5, 97])).readString()).toThrowError(
+         RangeError
+      );
+      expect(() => new ByteReader(new Uint8Array([1, 2])).readFloat64()).toThrowError(
+         RangeError
+      );
+   });
+});
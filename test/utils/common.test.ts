@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { swap, isOverlapping } from "../../src/utils/common";
+import { swap, isOverlapping, createRandom } from "../../src/utils/common";
 
 describe("swap", () => {
    it("should swap two elements in an array", () => {
@@ -43,3 +43,24 @@ describe("isOverlapping", () => {
       expect(isOverlapping(2, 5, 2, 5)).toBe(true);
    });
 });
+
+describe("createRandom", () => {
+   it("should return the same sequence for the same seed", () => {
+      const a = createRandom(42);
+      const b = createRandom(42);
+      const c = createRandom(7);
+
+      const sequenceA = Array.from({ length: 10 }, a);
+      expect(Array.from({ length: 10 }, b)).toEqual(sequenceA);
+      expect(Array.from({ length: 10 }, c)).not.toEqual(sequenceA);
+   });
+
+   it("should return numbers between 0 and 1", () => {
+      const random = createRandom(1);
+      for (let i = 0; i < 1000; i++) {
+         const value = random();
+         expect(value).toBeGreaterThanOrEqual(0);
+         expect(value).toBeLessThan(1);
+      }
+   });
+});
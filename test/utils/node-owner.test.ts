@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { NodeOwner } from "../../src/utils/node-owner";
+
+describe("NodeOwner", () => {
+   it("should return the owner", () => {
+      const owner = new NodeOwner("a");
+
+      expect(owner.get()).toBe("a");
+   });
+
+   it("should hand over the nodes to another owner", () => {
+      const a = new NodeOwner("a");
+      const b = new NodeOwner("b");
+      const c = new NodeOwner("c");
+
+      a.forwardTo(b);
+      b.forwardTo(c);
+
+      expect(a.get()).toBe("c");
+      expect(b.get()).toBe("c");
+   });
+
+   it("should hand over the nodes from a taller tree", () => {
+      const owners = ["a", "b", "c", "d"].map((name) => new NodeOwner(name));
+      owners[0].forwardTo(owners[1]);
+      owners[2].forwardTo(owners[3]);
+      owners[1].forwardTo(owners[3]);
+      const e = new NodeOwner("e");
+
+      owners[0].forwardTo(e);
+
+      for (const owner of [...owners, e]) {
+         expect(owner.get()).toBe("e");
+      }
+
+      e.release();
+
+      for (const owner of [...owners, e]) {
+         expect(owner.get()).toBeUndefined();
+      }
+   });
+
+   it("should ignore handing over the nodes to the same owner", () => {
+      const a = new NodeOwner("a");
+      const b = new NodeOwner("b");
+      a.forwardTo(b);
+
+      b.forwardTo(a);
+
+      expect(a.get()).toBe("b");
+   });
+
+   it("should release the nodes", () => {
+      const a = new NodeOwner("a");
+      const b = new NodeOwner("b");
+      a.forwardTo(b);
+
+      b.release();
+
+      expect(a.get()).toBeUndefined();
+      expect(b.get()).toBeUndefined();
+   });
+});
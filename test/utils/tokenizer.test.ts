@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { tokenizers, normalizers } from "../../src/utils/tokenizer";
+
+describe("tokenizers", () => {
+   it("should split keys into characters", () => {
+      expect(tokenizers.characters.split("a😀b")).toEqual(["a", "😀", "b"]);
+      expect(tokenizers.characters.join(["a", "😀", "b"])).toBe("a😀b");
+   });
+
+   it("should split keys into path segments", () => {
+      expect(tokenizers.pathSegments.split("/api//users/")).toEqual([
+         "api",
+         "users",
+      ]);
+      expect(tokenizers.pathSegments.split("/")).toEqual([]);
+      expect(tokenizers.pathSegments.join(["api", "users"])).toBe("/api/users");
+   });
+
+   it("should split keys into words", () => {
+      expect(tokenizers.words.split("  git\tcommit  -m ")).toEqual([
+         "git",
+         "commit",
+         "-m",
+      ]);
+      expect(tokenizers.words.join(["git", "commit"])).toBe("git commit");
+   });
+});
+
+describe("normalizers", () => {
+   it("should fold the case", () => {
+      expect(normalizers.caseFold("HeLLo")).toBe("hello");
+   });
+
+   it("should compose characters", () => {
+      expect(normalizers.nfc("é")).toBe("é");
+   });
+
+   it("should strip accents", () => {
+      expect(normalizers.stripAccents("crème brûlée")).toBe("creme brulee");
+      expect(normalizers.stripAccents("Ångström")).toBe("Angstrom");
+   });
+});